@@ -1,13 +1,18 @@
 import { SocketClient } from "../src/socketClient";
+import { OutboxLocalMemory } from "../src/lib/outbox";
 import { io } from 'socket.io-client';
 
 jest.mock('socket.io-client', () => {
     const mSocket = {
-        on: jest.fn(),
+        on: jest.fn().mockReturnThis(),
         emit: jest.fn(),
         off: jest.fn(),
         connect: jest.fn(),
         disconnect: jest.fn(),
+        io: { on: jest.fn() },
+        timeout: jest.fn().mockReturnThis(),
+        emitWithAck: jest.fn(),
+        listeners: jest.fn(() => []),
     };
     return {
         io: jest.fn(() => mSocket),
@@ -20,6 +25,7 @@ describe('SocketClient', () => {
     const mockSecurity = { token: 'mockToken' };
     const mockOnError = jest.fn();
     const mockSocket = io() as unknown as jest.Mocked<any>;
+    const handler = (event: string, target: any = mockSocket) => target.on.mock.calls.filter(([name]: [string]) => name === event).pop()[1];
 
     beforeEach(() => {
         jest.clearAllMocks();
@@ -31,7 +37,11 @@ describe('SocketClient', () => {
             auth: { authorization: 'Bearer mockToken' },
             autoConnect: false,
         }));
-        expect(mockSocket.on).toHaveBeenCalledWith('connect_error', mockOnError);
+        expect(mockSocket.on).toHaveBeenCalledWith('connect_error', expect.any(Function));
+
+        const envelope = { code: 'invalid_api_key', message: 'Unauthorized access: Invalid API key.', retryable: false };
+        handler('connect_error')(Object.assign(new Error(envelope.message), { data: envelope }));
+        expect(mockOnError).toHaveBeenCalledWith(envelope);
     });
 
     test('should connect to the WebSocket server', () => {
@@ -70,15 +80,14 @@ describe('SocketClient', () => {
 
     test('should emit an event to a channel', () => {
         const eventName = 'testEvent';
-        const data = { key: 'value' } as any;
+        const data = { data: { key: 'value' } };
         const token = 'testToken';
         const room = 'testRoom';
 
         client['emit'](eventName, data, token, room); // Acceso directo al método privado
         expect(mockSocket.emit).toHaveBeenCalledWith(eventName, {
             ...data,
-            token,
-            room,
+            params: { authorization: `Bearer ${token}`, room, requestId: expect.any(String) },
         });
     });
 
@@ -96,13 +105,135 @@ describe('SocketClient', () => {
         expect(mockSocket.on).toHaveBeenCalledWith(`${channel}:error`, opts.onError);
     });
 
-    test('should remove event listeners for a channel', () => {
+    test('should remove only the event listeners of a channel and leave its room', () => {
+        const channel = 'testChannel';
+        const opts = { room: 'testRoom', onSuccess: jest.fn(), onError: jest.fn() };
+
+        const subscription = client.channel(channel, opts);
+        subscription.off(); // Nothing registered yet
+        expect(mockSocket.off).not.toHaveBeenCalled();
+
+        const unsubscribe = subscription.on();
+        unsubscribe();
+        expect(mockSocket.off).toHaveBeenCalledWith(`${channel}:success`, opts.onSuccess);
+        expect(mockSocket.off).toHaveBeenCalledWith(`${channel}:error`, opts.onError);
+        expect(mockSocket.emit).toHaveBeenCalledWith(`${channel}:leave`, opts.room);
+    });
+
+    test('should count the subscribers of a room and register each channel object once', () => {
         const channel = 'testChannel';
-        const opts = { room: 'testRoom' };
+        const first = client.channel(channel, { room: 'testRoom', onSuccess: jest.fn() });
+        const second = client.channel(channel, { room: 'testRoom', onSuccess: jest.fn() });
+
+        first.on();
+        first.on();
+        second.on();
+        expect(mockSocket.emit.mock.calls.filter(([event]: any[]) => event === `${channel}:join`)).toHaveLength(1);
+        expect(mockSocket.on.mock.calls.filter(([event]: any[]) => event === `${channel}:success`)).toHaveLength(2);
+
+        first.off();
+        expect(mockSocket.emit).not.toHaveBeenCalledWith(`${channel}:leave`, 'testRoom');
+        second.off();
+        second.off();
+        expect(mockSocket.emit.mock.calls.filter(([event]: any[]) => event === `${channel}:leave`)).toHaveLength(1);
+    });
+
+    test('should join the rooms again after a reconnection and call the onReconnect listeners', async () => {
+        client.channel('testChannel', { room: 'testRoom', onSuccess: jest.fn() }).on();
+        client.join('otherChannel', 'otherRoom');
+        client.join('otherChannel', 'leftRoom');
+        client.leave('otherChannel', 'leftRoom');
+        const onReconnect = jest.fn();
+        client.onReconnect(onReconnect);
+
+        mockSocket.emit.mockClear();
+        handler('connect')(); // The first joins are buffered by Socket.IO
+        expect(mockSocket.emit).not.toHaveBeenCalled();
+        handler('disconnect')('transport close');
+        mockSocket.emit.mockClear();
+        handler('connect')();
+        await Promise.resolve();
+
+        const rooms = [{ channel: 'testChannel', room: 'testRoom' }, { channel: 'otherChannel', room: 'otherRoom' }];
+        expect(client.getRooms()).toEqual(rooms);
+        expect(mockSocket.emit.mock.calls).toEqual([['testChannel:join', 'testRoom'], ['otherChannel:join', 'otherRoom']]);
+        expect(onReconnect).toHaveBeenCalledWith(expect.objectContaining({ recovered: false, rooms }));
+    });
+
+    test('should drop expired events and keep the others queued until the server acknowledges them', async () => {
+        let now = 0;
+        const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+        const onSuccess = jest.fn();
+        mockSocket.listeners.mockImplementation((event: string) => event === 'orders:success' ? [onSuccess] : []);
+        const outbox = new OutboxLocalMemory();
+        const queued = new SocketClient(mockUrl, { ...mockSecurity, outbox: { storage: outbox, ttl: 1000 } });
+
+        mockSocket.connected = false;
+        const orders = queued.channel<{ qty: number }>('orders', { onSuccess });
+        orders.emit({ data: { qty: 1 } });
+        now = 900;
+        orders.emit({ data: { qty: 2 } });
+        await queued['saving'];
+
+        // Expired at 1500, the first event is dropped; the transport dies before the second is acknowledged
+        now = 1500;
+        mockSocket.connected = true;
+        mockSocket.emitWithAck.mockImplementationOnce(async () => {
+            mockSocket.connected = false;
+            throw new Error('operation has timed out');
+        });
+        await queued['replay']();
+        expect(mockSocket.emitWithAck).toHaveBeenCalledTimes(1);
+        expect(mockSocket.emitWithAck).toHaveBeenCalledWith('orders', expect.objectContaining({ data: { qty: 2 } }));
+        expect((await outbox.all()).map(item => item.data.data)).toEqual([{ qty: 2 }]);
+
+        mockSocket.connected = true;
+        mockSocket.emitWithAck.mockResolvedValueOnce({ data: 4 });
+        await queued['replay']();
+        expect(await outbox.all()).toEqual([]);
+        expect(onSuccess).toHaveBeenCalledWith(4);
+        clock.mockRestore();
+        mockSocket.listeners.mockImplementation(() => []);
+    });
+
+    test('should track the connection state and the reconnection attempts', async () => {
+        Object.assign(mockSocket, { active: true, connected: false });
+        Object.assign(mockSocket.io, { reconnection: () => true, reconnectionDelay: () => 1000, reconnectionDelayMax: () => 5000 });
+        const changes: any[] = [];
+        client.onStateChange(change => changes.push(change));
+        expect(client.getState()).toBe('idle');
 
-        client['off'](channel, opts); // Acceso directo al método privado
-        expect(mockSocket.off).toHaveBeenCalledWith(`${channel}:join`);
-        expect(mockSocket.off).toHaveBeenCalledWith(`${channel}:success`);
-        expect(mockSocket.off).toHaveBeenCalledWith(`${channel}:error`);
+        client.connect();
+        const connected = client.waitUntilConnected(1000);
+        handler('connect')();
+        await connected;
+
+        handler('disconnect')('transport close');
+        expect(client.getReconnectInfo()).toEqual({ attempt: 0, delay: 1000 });
+        handler('reconnect_attempt', mockSocket.io)(1);
+        handler('connect_error')(new Error('xhr poll error'));
+        expect(client.getReconnectInfo()).toEqual({ attempt: 1, delay: 2000 });
+        handler('connect')();
+
+        expect(changes.map(({ state, attempt, delay }) => [state, attempt, delay])).toEqual([
+            ['connecting', 0, undefined],
+            ['connected', 0, undefined],
+            ['reconnecting', 0, 1000],
+            ['reconnecting', 1, undefined],
+            ['reconnecting', 1, 2000],
+            ['connected', 0, undefined],
+        ]);
+    });
+
+    test('should reject waitUntilConnected when the credentials are rejected', async () => {
+        mockSocket.active = false;
+        client.connect();
+        const connected = client.waitUntilConnected(1000);
+
+        const envelope = { code: 'invalid_api_key', message: 'Unauthorized access: Invalid API key.', retryable: false };
+        handler('connect_error')(Object.assign(new Error(envelope.message), { data: envelope }));
+        await expect(connected).rejects.toMatchObject({ code: 'invalid_api_key' });
+        expect(client.getState()).toBe('unauthorized');
+        await expect(client.waitUntilConnected(10)).rejects.toMatchObject({ code: 'timeout' });
     });
-});
\ No newline at end of file
+});
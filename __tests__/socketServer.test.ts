@@ -0,0 +1,648 @@
+import { AddressInfo } from 'net';
+import { io, Socket } from 'socket.io-client';
+import { SocketClient } from '../src/socketClient';
+import { SocketServer } from '../src/socketServer';
+import { LemurError } from '../src/lib/lemur-error';
+import { TokenManager } from '../src/tokenManager';
+import { InProcessCluster } from '../src/lib/cluster';
+import type { ReconnectEvent, ServerSettings } from '../src/dts/browser';
+
+const secret = 'test-secret';
+const tokens = new TokenManager();
+
+describe('SocketServer', () => {
+    let server: SocketServer<{ id: string }>;
+    let url: string;
+    const clients: Socket[] = [];
+
+    const connect = (auth: Record<string, any> = {}): Promise<Socket> => new Promise((resolve, reject) => {
+        const client = io(url, { auth, transports: ['websocket'], forceNew: true });
+        clients.push(client);
+        client.once('connect', () => resolve(client));
+        client.once('connect_error', reject);
+    });
+
+    const next = <T = any>(client: Socket, event: string): Promise<T> => new Promise(resolve => client.once(event, resolve));
+
+    const recordTokens = (channel: string): Array<string | undefined> => {
+        const sent: Array<string | undefined> = [];
+        server.getIO().on('connection', socket => socket.onAny((event: string, payload: any) => {
+            if (event === channel) sent.push(payload?.params?.authorization);
+        }));
+        return sent;
+    };
+
+    const restart = async (settings: ServerSettings) => {
+        await new Promise(resolve => server.getIO().close(resolve));
+        server = new SocketServer<{ id: string }>(settings);
+        server.setLogger({ log: async () => { }, error: async () => { }, warn: async () => { }, info: async () => { } });
+        server.connection();
+        const http = server.listen(0);
+        await new Promise(resolve => http.once('listening', resolve));
+        url = `http://localhost:${(http.address() as AddressInfo).port}`;
+    };
+
+    beforeEach(done => {
+        server = new SocketServer<{ id: string }>({ secret });
+        server.setLogger({ log: async () => { }, error: async () => { }, warn: async () => { }, info: async () => { } });
+        server.channel<{}>('whoami', (req, res) => res(req.session?.id), true);
+        server.channel<{ value: number }>('double', (req, res, error) => {
+            if (typeof req.body.value !== 'number') return error('value must be a number');
+            setTimeout(() => res(req.body.value * 2), Math.random() * 10);
+        });
+        server.channel('orders', (req, res) => res(req.body.qty), {
+            schema: { type: 'object', properties: { qty: { type: 'integer', minimum: 1 } }, required: ['qty'] } as const
+        });
+        server.connection();
+        const http = server.listen(0, () => {
+            url = `http://localhost:${(http.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    afterEach(done => {
+        clients.splice(0).forEach(client => client.disconnect());
+        server.getIO().close(() => done());
+    });
+
+    test('should keep a separate session for every socket', async () => {
+        const alice = await connect({ authorization: `Bearer ${tokens.generate({ id: 'alice' }, secret)}` });
+        const bob = await connect({ authorization: `Bearer ${tokens.generate({ id: 'bob' }, secret)}` });
+
+        const aliceReply = next(alice, 'whoami:success');
+        alice.emit('whoami', { data: {} });
+        expect(await aliceReply).toBe('alice');
+
+        const bobReply = next(bob, 'whoami:success');
+        bob.emit('whoami', { data: {} });
+        expect(await bobReply).toBe('bob');
+    });
+
+    test('should reject protected channels for sockets without session', async () => {
+        await connect({ authorization: `Bearer ${tokens.generate({ id: 'alice' }, secret)}` });
+        const anonymous = await connect();
+
+        const error = next(anonymous, 'whoami:error');
+        anonymous.emit('whoami', { data: {}, params: { requestId: 'req-1' } });
+        expect(await error).toMatchObject({ code: 'unauthorized', channel: 'whoami', requestId: 'req-1', retryable: false });
+    });
+
+    test('should replace the session on auth:refresh', async () => {
+        const client = await connect();
+
+        const refreshed = next(client, 'auth:refresh:success');
+        client.emit('auth:refresh', `Bearer ${tokens.generate({ id: 'carol' }, secret)}`);
+        await refreshed;
+
+        const reply = next(client, 'whoami:success');
+        client.emit('whoami', { data: {} });
+        expect(await reply).toBe('carol');
+    });
+
+    test('should drop the session once the token expires', async () => {
+        const client = await connect({ authorization: `Bearer ${tokens.generate({ id: 'dave' }, secret, 1)}` });
+
+        await next(client, 'auth:expired');
+
+        const error = next(client, 'whoami:error');
+        client.emit('whoami', { data: {} });
+        expect(await error).toBeDefined();
+    });
+
+    test('should match concurrent requests with their responses', async () => {
+        const client = new SocketClient(url, { transports: ['websocket'], forceNew: true });
+        clients.push(client.getSocket() as unknown as Socket);
+        client.connect();
+
+        const double = client.channel<{ value: number }>('double', { onSuccess: () => { } });
+        const results = await Promise.all([1, 2, 3].map(value => double.request<number>({ data: { value } })));
+        expect(results).toEqual([2, 4, 6]);
+
+        await expect(double.request({ data: { value: 'x' as any } })).rejects.toMatchObject({
+            code: 'handler_exception',
+            message: 'value must be a number',
+            channel: 'double'
+        });
+    });
+
+    test('should reject invalid payloads before the handler runs', async () => {
+        const client = await connect();
+
+        const error = next(client, 'orders:error');
+        client.emit('orders', { data: { qty: 0 } });
+        expect(await error).toEqual({
+            code: 'validation_failed',
+            message: 'Validation failed.',
+            channel: 'orders',
+            details: [{ path: 'body.qty', message: 'must be >= 1' }],
+            retryable: false
+        });
+
+        const reply = next(client, 'orders:success');
+        client.emit('orders', { data: { qty: 3 } });
+        expect(await reply).toBe(3);
+    });
+
+    test('should answer unknown channels with an unknown_channel error', async () => {
+        const client = await connect();
+
+        const error = next(client, 'missing:error');
+        client.emit('missing', { data: {} });
+        expect(await error).toMatchObject({ code: 'unknown_channel', channel: 'missing' });
+    });
+
+    test('should reject channel events without an object payload', async () => {
+        const client = await connect();
+
+        const error = next(client, 'orders:error');
+        client.emit('orders');
+        expect(await error).toMatchObject({ code: 'validation_failed', channel: 'orders', details: [{ path: '', message: 'must be an object' }] });
+
+        expect(await client.timeout(1000).emitWithAck('orders')).toMatchObject({ error: { code: 'validation_failed' } });
+        expect(await client.timeout(1000).emitWithAck('orders', { data: { qty: 1 }, params: 'x' })).toMatchObject({
+            error: { code: 'validation_failed', details: [{ path: 'params', message: 'must be an object' }] }
+        });
+        expect(await client.timeout(1000).emitWithAck('orders', { data: { qty: 1 } })).toEqual({ data: 1 });
+    });
+
+    test('should send the error envelope on invalid API keys', async () => {
+        await restart({ apikey: 'key' });
+
+        await expect(connect({ 'x-api-key': 'wrong' })).rejects.toMatchObject({
+            data: { code: 'invalid_api_key', retryable: false }
+        });
+    });
+
+    test('should run global and channel middleware before the handler', async () => {
+        const calls: string[] = [];
+        server.use(async (req, ctx, next) => {
+            calls.push(`global:${ctx.channel}`);
+            req.body.tenant = 'acme';
+            await next();
+            calls.push('global:done');
+        });
+        server.channel<{ tenant?: string }>('tenant', (req, res) => res(req.body.tenant), {
+            use: [
+                (_req, _ctx, next) => { calls.push('channel'); return next(); }
+            ]
+        });
+        server.channel('blocked', (_req, res) => res('never'), {
+            use: [(_req, _ctx, next) => next(new LemurError('forbidden', 'Feature disabled.'))]
+        });
+        const client = await connect();
+
+        const reply = next(client, 'tenant:success');
+        client.emit('tenant', { data: {} });
+        expect(await reply).toBe('acme');
+        expect(calls).toEqual(['global:tenant', 'channel', 'global:done']);
+
+        const error = next(client, 'blocked:error');
+        client.emit('blocked', { data: {} });
+        expect(await error).toMatchObject({ code: 'forbidden', message: 'Feature disabled.', channel: 'blocked' });
+    });
+
+    test('should answer a request stopped by a middleware and keep the answer of a handler', async () => {
+        const error = jest.fn(async () => { });
+        server.setLogger({ log: async () => { }, error, warn: async () => { }, info: async () => { } });
+        server.channel('silent', (_req, res) => res('never'), { use: [async () => { }] });
+        server.channel('audited', (_req, res) => res('ok'), {
+            use: [async (_req, _ctx, next) => { await next(); throw new Error('audit log down'); }]
+        });
+        const client = await connect();
+
+        const stopped = await client.timeout(1000).emitWithAck('silent', { data: {} });
+        expect(stopped).toEqual({ error: expect.objectContaining({ code: 'forbidden', channel: 'silent' }) });
+
+        const errors: unknown[] = [];
+        client.on('audited:error', payload => errors.push(payload));
+        const reply = next(client, 'audited:success');
+        client.emit('audited', { data: {} });
+        expect(await reply).toBe('ok');
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(errors).toEqual([]);
+        expect(error).toHaveBeenCalledWith('Error on audited after the response was sent.', expect.any(Error));
+    });
+
+    test('should answer the errors of a chain whose middleware does not await next', async () => {
+        server.use((_req, _ctx, next) => { next(); });
+        const client = await connect();
+
+        const error = next(client, 'orders:error');
+        client.emit('orders', { data: { qty: 0 } });
+        expect(await error).toMatchObject({ code: 'validation_failed', channel: 'orders' });
+
+        const reply = next(client, 'orders:success');
+        client.emit('orders', { data: { qty: 2 } });
+        expect(await reply).toBe(2);
+    });
+
+    test('should check roles, scopes and join guards against the session', async () => {
+        server.channel('admin', (_req, res) => res('ok'), { roles: ['admin'] });
+        server.channel('reports', (_req, res) => res('ok'), { scopes: ['reports:read'] });
+        server.channel('chat', (_req, res) => res('ok'), {
+            roomSupport: true,
+            authorizeJoin: (session, room) => room === `user:${session?.id}`
+        });
+        const customer = await connect({ authorization: `Bearer ${tokens.generate({ id: 'eve', roles: ['customer'], scope: 'reports:read' }, secret)}` });
+
+        const forbidden = next(customer, 'admin:error');
+        customer.emit('admin', { data: {} });
+        expect(await forbidden).toMatchObject({ code: 'forbidden', channel: 'admin' });
+
+        const allowed = next(customer, 'reports:success');
+        customer.emit('reports', { data: {} });
+        expect(await allowed).toBe('ok');
+
+        const joinError = next(customer, 'chat:error');
+        customer.emit('chat:join', 'user:mallory');
+        expect(await joinError).toMatchObject({ code: 'forbidden', details: { room: 'user:mallory' } });
+    });
+
+    test('should reject calls over the channel rate limit', async () => {
+        server.channel('flood', (_req, res) => res('ok'), { rateLimit: { capacity: 1, refillPerSecond: 0.1 } });
+        const client = await connect();
+
+        const reply = next(client, 'flood:success');
+        client.emit('flood', { data: {} });
+        expect(await reply).toBe('ok');
+
+        const error = next(client, 'flood:error');
+        client.emit('flood', { data: {} });
+        expect(await error).toMatchObject({ code: 'rate_limited', retryable: true, details: { retryAfter: expect.any(Number) } });
+    });
+
+    test('should forget rate limit violations once the retry time has passed', async () => {
+        await restart({ secret, rateLimit: { maxViolations: 2 } });
+        server.channel('flood', (_req, res) => res('ok'), { rateLimit: { capacity: 1, refillPerSecond: 10 } });
+        const client = await connect();
+        const call = async () => {
+            const reply = Promise.race([next(client, 'flood:success'), next(client, 'flood:error')]);
+            client.emit('flood', { data: {} });
+            return reply;
+        };
+
+        expect(await call()).toBe('ok');
+        expect(await call()).toMatchObject({ code: 'rate_limited' });
+        await new Promise(resolve => setTimeout(resolve, 150));
+        expect(await call()).toBe('ok');
+        expect(await call()).toMatchObject({ code: 'rate_limited' });
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(client.connected).toBe(true);
+
+        const disconnected = next(client, 'disconnect');
+        expect(await call()).toMatchObject({ code: 'rate_limited' });
+        await disconnected;
+    });
+
+    test('should track room members and broadcast presence', async () => {
+        server.channel('lobby', (_req, res) => res('ok'), { roomSupport: true });
+        const alice = await connect();
+        const bob = await connect();
+
+        const joined = next(alice, 'lobby:presence');
+        alice.emit('lobby:join', 'general');
+        expect(await joined).toEqual({ room: 'general', type: 'joined', id: alice.id, count: 1 });
+
+        const bobJoined = next(alice, 'lobby:presence');
+        bob.emit('lobby:join', 'general');
+        expect(await bobJoined).toMatchObject({ type: 'joined', id: bob.id, count: 2 });
+        expect(server.getRoomMembers('general').map(member => member.id).sort()).toEqual([alice.id, bob.id].sort());
+        expect(server.getRoomsOf(bob.id!)).toEqual(['general']);
+
+        const kicked = next(bob, 'lobby:kicked');
+        const bobKicked = next(alice, 'lobby:presence');
+        expect(server.kick('general', bob.id!)).toBe(true);
+        expect(await kicked).toEqual({ room: 'general' });
+        expect(await bobKicked).toMatchObject({ type: 'left', id: bob.id, count: 1 });
+
+        const aliceId = alice.id!;
+        alice.disconnect();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(server.getRoomMembers('general')).toEqual([]);
+        expect(server.getRoomsOf(aliceId)).toEqual([]);
+    });
+
+    test('should expire inactive rooms and notify their members', async () => {
+        await restart({ roomsEnabled: { state: true, exp: 100 } });
+        server.channel('lobby', (_req, res) => res('ok'));
+        const expired = new Promise<[string, string[]]>(resolve => server.onRoomExpired((room, members) => resolve([room, members.map(member => member.id)])));
+        const client = await connect();
+
+        const joined = next(client, 'lobby:presence');
+        client.emit('lobby:join', 'idle');
+        await joined;
+
+        const notified = next(client, 'lobby:expired');
+        expect(await expired).toEqual(['idle', [client.id]]);
+        expect(await notified).toEqual({ room: 'idle' });
+        expect(server.getRoomMembers('idle')).toEqual([]);
+        expect(server.getRoomsOf(client.id!)).toEqual([]);
+    });
+
+    test('should keep a room used through requests active', async () => {
+        await restart({ roomsEnabled: { state: true, exp: 150 } });
+        server.channel('lobby', (_req, res) => res('ok'));
+        const onExpired = jest.fn();
+        server.onRoomExpired(onExpired);
+        const client = await connect();
+
+        const joined = next(client, 'lobby:presence');
+        client.emit('lobby:join', 'busy');
+        await joined;
+
+        for (let call = 0; call < 8; call++) {
+            expect(await client.emitWithAck('lobby', { params: { room: 'busy' } })).toEqual({ data: 'ok' });
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        expect(onExpired).not.toHaveBeenCalled();
+        expect(server.getRoomsOf(client.id!)).toEqual(['busy']);
+    });
+
+    test('should share rooms and broadcasts between cluster nodes', async () => {
+        const cluster = new InProcessCluster();
+        await restart({ cluster: cluster.node('a') });
+        const nodeA = server;
+        const urlA = url;
+        const nodeB = new SocketServer<{ id: string }>({ cluster: cluster.node('b') });
+        nodeB.setLogger({ log: async () => { }, error: async () => { }, warn: async () => { }, info: async () => { } });
+        [nodeA, nodeB].forEach(node => node.channel('lobby', (_req, res) => res('hello'), { roomSupport: true }));
+        nodeB.connection();
+        const http = nodeB.listen(0);
+        await new Promise(resolve => http.once('listening', resolve));
+
+        try {
+            const alice = await connect();
+            url = `http://localhost:${(http.address() as AddressInfo).port}`;
+            const bob = await connect();
+            url = urlA;
+
+            const joined = next(alice, 'lobby:presence');
+            alice.emit('lobby:join', 'general');
+            await joined;
+
+            const bobJoined = next(alice, 'lobby:presence');
+            bob.emit('lobby:join', 'general');
+            expect(await bobJoined).toMatchObject({ type: 'joined', id: bob.id, count: 2 });
+            expect((await nodeA.fetchRoomMembers('general')).map(member => member.id).sort()).toEqual([alice.id, bob.id].sort());
+            expect(await nodeA.fetchRoomsOf(bob.id!)).toEqual(['general']);
+            expect(nodeA.getRoomMembers('general').map(member => member.id)).toEqual([alice.id]); // This node only
+
+            const broadcast = next(bob, 'lobby:success');
+            alice.emit('lobby', { data: {}, params: { room: 'general' } });
+            expect(await broadcast).toBe('hello');
+        } finally {
+            await new Promise(resolve => nodeB.getIO().close(resolve));
+        }
+    });
+
+    test('should not expire a room another cluster node keeps active', async () => {
+        const cluster = new InProcessCluster();
+        const roomsEnabled = { state: true as const, exp: 150 };
+        await restart({ cluster: cluster.node('a'), roomsEnabled });
+        const nodeA = server;
+        const urlA = url;
+        const nodeB = new SocketServer<{ id: string }>({ cluster: cluster.node('b'), roomsEnabled });
+        nodeB.setLogger({ log: async () => { }, error: async () => { }, warn: async () => { }, info: async () => { } });
+        [nodeA, nodeB].forEach(node => node.channel('lobby', (_req, res) => res('hello')));
+        nodeB.connection();
+        const http = nodeB.listen(0);
+        await new Promise(resolve => http.once('listening', resolve));
+
+        try {
+            const alice = await connect();
+            url = `http://localhost:${(http.address() as AddressInfo).port}`;
+            const bob = await connect();
+            url = urlA;
+            const onExpired = jest.fn();
+            nodeA.onRoomExpired(onExpired);
+
+            for (const client of [alice, bob]) {
+                const joined = next(client, 'lobby:presence');
+                client.emit('lobby:join', 'busy');
+                await joined;
+            }
+            for (let call = 0; call < 8; call++) {
+                await bob.emitWithAck('lobby', { params: { room: 'busy' } });
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+            expect(onExpired).not.toHaveBeenCalled();
+            expect(nodeA.getRoomsOf(alice.id!)).toEqual(['busy']);
+
+            const expired = next(alice, 'lobby:expired');
+            expect(await expired).toEqual({ room: 'busy' });
+            expect(await nodeA.fetchRoomsOf(alice.id!)).toEqual([]);
+        } finally {
+            await new Promise(resolve => nodeB.getIO().close(resolve));
+        }
+    });
+
+    test('should count connections, events and errors and serve them on /metrics', async () => {
+        await restart({ secret, metrics: true, roomsEnabled: true });
+        server.channel('orders', (req, res) => res(req.body.qty), {
+            schema: { type: 'object', properties: { qty: { type: 'integer', minimum: 1 } }, required: ['qty'] } as const
+        });
+        const client = await connect({ authorization: 'Bearer invalid' });
+
+        const failed = next(client, 'orders:error');
+        client.emit('orders', { data: { qty: 0 } });
+        await failed;
+        const done = next(client, 'orders:success');
+        client.emit('orders', { data: { qty: 2 } });
+        await done;
+        const joined = next(client, 'orders:presence');
+        client.emit('orders:join', 'basket');
+        await joined;
+
+        expect(server.getStats()).toMatchObject({
+            connections: { current: 1, total: 1, disconnections: 0 },
+            channels: { orders: { events: 2, errors: { validation_failed: 1 }, latency: { count: 2 } } },
+            rooms: { count: 1, members: 1, largest: 1, sizes: { basket: 1 } },
+            authFailures: { invalid_token: 1 },
+        });
+
+        const response = await fetch(`${url}/metrics`);
+        expect(response.status).toBe(200);
+        const text = await response.text();
+        expect(text).toContain('lemur_connected_sockets 1');
+        expect(text).toContain('lemur_channel_events_total{channel="orders"} 2');
+        expect(text).toContain('lemur_channel_errors_total{channel="orders",code="validation_failed"} 1');
+        expect(text).toContain('lemur_handler_duration_milliseconds_count{channel="orders"} 2');
+        expect(text).toContain('lemur_auth_failures_total{reason="invalid_token"} 1');
+        expect((await fetch(`${url}/other`)).status).toBe(404);
+    });
+
+    test('should answer the liveness, readiness and info routes', async () => {
+        await restart({ health: { timeout: 50, info: { version: '1.2.3' } } });
+        server.channel('orders', (_req, res) => res('ok'));
+        let storeUp = true;
+        server.addReadinessCheck('store', () => storeUp);
+
+        expect(await (await fetch(`${url}/healthz`)).json()).toEqual({ status: 'ok' });
+
+        const ready = await fetch(`${url}/readyz`);
+        expect(ready.status).toBe(200);
+        expect(await ready.json()).toMatchObject({ status: 'ok', checks: { store: { status: 'ok' } } });
+
+        storeUp = false;
+        server.addReadinessCheck('slow', () => new Promise<void>(resolve => setTimeout(resolve, 500)));
+        const notReady = await fetch(`${url}/readyz`);
+        expect(notReady.status).toBe(503);
+        expect(await notReady.json()).toMatchObject({
+            status: 'fail',
+            checks: { store: { status: 'fail' }, slow: { status: 'fail', error: 'Timed out after 50ms' } }
+        });
+
+        expect(await (await fetch(`${url}/info`)).json()).toMatchObject({ version: '1.2.3', uptime: 0, channels: ['orders'] });
+        expect((await fetch(`${url}/metrics`)).status).toBe(404);
+
+        await restart({ health: { info: true } });
+        expect(await (await fetch(`${url}/info`)).json()).not.toHaveProperty('version');
+    });
+
+    test('should replay the outbox on connect and drop repeated idempotency keys', async () => {
+        await restart({ idempotency: true });
+        server.channel<{ value: number }>('double', (req, res) => res(req.body.value * 2));
+
+        const client = new SocketClient(url, { transports: ['websocket'], forceNew: true, outbox: true });
+        clients.push(client.getSocket() as unknown as Socket);
+        const results: number[] = [];
+        const replayed = new Promise<void>(resolve => client.channel<{ value: number }>('double', {
+            onSuccess: (value: any) => {
+                if (results.push(value) === 3) resolve();
+            }
+        }).on());
+
+        const double = client.channel<{ value: number }>('double', { onSuccess: () => { } });
+        [1, 2, 3].forEach(value => double.emit({ data: { value } }));
+        client.connect();
+        await replayed;
+        expect(results).toEqual([2, 4, 6]);
+
+        const raw = await connect();
+        const first = next(raw, 'double:success');
+        raw.emit('double', { data: { value: 5 }, params: { idempotencyKey: 'order-1' } });
+        expect(await first).toBe(10);
+
+        const repeated = next(raw, 'double:success');
+        raw.emit('double', { data: { value: 7 }, params: { idempotencyKey: 'order-1' } });
+        expect(await repeated).toBe(10); // The original result, the handler does not run again
+    });
+
+    test('should keep the idempotency key free until the handler succeeds', async () => {
+        await restart({ secret, idempotency: true });
+        let calls = 0;
+        server.channel<{ value: number }>('orders', (req, res, error) => {
+            if (++calls === 1) return error('database unavailable');
+            res(req.body.value);
+        });
+
+        const alice = await connect({ authorization: tokens.generate({ id: 'alice' }, secret) });
+        const order = { data: { value: 1 }, params: { idempotencyKey: 'order-1' } };
+        expect(await alice.emitWithAck('orders', order)).toMatchObject({ error: { code: 'handler_exception' } });
+        expect(await alice.emitWithAck('orders', order)).toEqual({ data: 1 });
+        expect(await alice.emitWithAck('orders', order)).toEqual({ data: 1 });
+        expect(calls).toBe(2);
+
+        // Another user may use the same key
+        const bob = await connect({ authorization: tokens.generate({ id: 'bob' }, secret) });
+        expect(await bob.emitWithAck('orders', { data: { value: 2 }, params: { idempotencyKey: 'order-1' } })).toEqual({ data: 2 });
+        expect(calls).toBe(3);
+
+        // Sockets without a session do not share a scope
+        const anonymous = await connect();
+        expect(await anonymous.emitWithAck('orders', { data: { value: 3 }, params: { idempotencyKey: 'order-1' } })).toEqual({ data: 3 });
+        const stranger = await connect();
+        expect(await stranger.emitWithAck('orders', { data: { value: 4 }, params: { idempotencyKey: 'order-1' } })).toEqual({ data: 4 });
+        expect(calls).toBe(5);
+    });
+
+    test('should answer a repeat sent while the first event is running with a retryable error', async () => {
+        await restart({ idempotency: { pendingTtl: 100 } });
+        let finish: (value: number) => void = () => { };
+        let calls = 0;
+        server.channel<{ value: number }>('orders', (req, res) => {
+            calls++;
+            if (req.body.value) finish = res;
+        });
+        const client = await connect();
+        const order = { data: { value: 1 }, params: { idempotencyKey: 'order-1' } };
+
+        const first = client.emitWithAck('orders', order);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(await client.emitWithAck('orders', order)).toMatchObject({ error: { code: 'in_progress', retryable: true } });
+        finish(1);
+        expect(await first).toEqual({ data: 1 });
+        expect(await client.emitWithAck('orders', order)).toEqual({ data: 1 });
+
+        // A handler that never answers holds the key for `pendingTtl` only
+        const silent = { data: { value: 0 }, params: { idempotencyKey: 'order-2' } };
+        client.emit('orders', silent);
+        await new Promise(resolve => setTimeout(resolve, 150));
+        client.emit('orders', silent);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(calls).toBe(3);
+    });
+
+    test('should refresh the token and retry the calls answered unauthorized', async () => {
+        const issued = ['expired', tokens.generate({ id: 'alice' }, secret), tokens.generate({ id: 'alice' }, secret)];
+        const getToken = jest.fn(async () => issued.shift()!);
+        const tokensSent = recordTokens('whoami');
+        const client = new SocketClient(url, { transports: ['websocket'], forceNew: true, getToken });
+        clients.push(client.getSocket() as unknown as Socket);
+        client.connect();
+        await client.waitUntilConnected(1000);
+
+        const whoami = client.channel('whoami', { onSuccess: () => { } });
+        expect(await whoami.request({ data: {} }, { token: 'stale' })).toBe('alice');
+        expect(getToken).toHaveBeenCalledTimes(2);
+        expect(tokensSent).toEqual(['Bearer stale', undefined]); // The retry uses the refreshed session
+
+        client.disconnect();
+        client.connect();
+        await client.waitUntilConnected(1000);
+        expect(getToken).toHaveBeenCalledTimes(3); // Every handshake asks for a token
+    });
+
+    test('should retry an emit once the token is refreshed without reporting the first error', async () => {
+        const issued = ['expired', tokens.generate({ id: 'bob' }, secret)];
+        const tokensSent = recordTokens('whoami');
+        const client = new SocketClient(url, { transports: ['websocket'], forceNew: true, getToken: () => issued.shift()! });
+        clients.push(client.getSocket() as unknown as Socket);
+        client.connect();
+        await client.waitUntilConnected(1000);
+
+        const onError = jest.fn();
+        const reply = new Promise(resolve => client.channel('whoami', { onSuccess: resolve, onError }).on());
+        client.channel('whoami', { onSuccess: () => { } }).emit({ data: {} }, 'stale');
+        expect(await reply).toBe('bob');
+        expect(onError).not.toHaveBeenCalled();
+        expect(tokensSent).toEqual(['Bearer stale', undefined]);
+    });
+
+    test('should keep the session and join the rooms again after a reconnection', async () => {
+        await restart({ secret, options: { connectionStateRecovery: {} } });
+        server.channel<{}>('whoami', (req, res) => res(req.session?.id), true);
+        server.channel('lobby', (_req, res) => res('ok'), { roomSupport: true });
+
+        const token = tokens.generate({ id: 'carol' }, secret);
+        const client = new SocketClient(url, { transports: ['websocket'], forceNew: true, reconnectionDelay: 10, token });
+        clients.push(client.getSocket() as unknown as Socket);
+        client.channel('lobby', { room: 'general', onSuccess: () => { } }).on();
+        client.join('lobby', 'support');
+        client.connect();
+        await client.waitUntilConnected(1000);
+        const id = client.getSocket().id!;
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(server.getRoomsOf(id).sort()).toEqual(['general', 'support']);
+
+        const reconnected = new Promise<ReconnectEvent>(resolve => client.onReconnect(resolve));
+        (client.getSocket() as any).io.engine.close(); // Drop the transport, as a network failure would
+        const event = await reconnected;
+        expect(event).toMatchObject({ recovered: true, rooms: [{ channel: 'lobby', room: 'general' }, { channel: 'lobby', room: 'support' }] });
+        expect(event.attempts).toBeGreaterThanOrEqual(1);
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(server.getRoomsOf(id).sort()).toEqual(['general', 'support']);
+        expect(await client.channel('whoami', { onSuccess: () => { } }).request()).toBe('carol');
+    });
+});
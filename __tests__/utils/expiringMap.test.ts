@@ -0,0 +1,105 @@
+import { ExpiringMap } from '../../src/lib/expiring-map';
+
+describe('ExpiringMap', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 0;
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('keeps working with a numeric timeout', () => {
+        const map = new ExpiringMap<string>(1000);
+        map.set('a', 'A');
+
+        jest.advanceTimersByTime(999);
+        expect(map.get('a')).toBe('A');
+        expect(map.size).toBe(1);
+        map.dispose();
+    });
+
+    it('expires keys with their own TTL using a single sweep interval', () => {
+        const expired: Array<[string, string, string]> = [];
+        const map = new ExpiringMap<string>({ ttl: 1000, sweepInterval: 100, clock: () => now });
+        map.onExpire((key, item, reason) => expired.push([key, item, reason]));
+        map.set('short', 'S', 200);
+        map.set('long', 'L');
+
+        expect(jest.getTimerCount()).toBe(1);
+
+        now = 200;
+        jest.advanceTimersByTime(200);
+        expect(expired).toEqual([['short', 'S', 'expired']]);
+        expect(map.has('short')).toBe(false);
+        expect(map.has('long')).toBe(true);
+
+        now = 1000;
+        expect(map.get('long')).toBeUndefined();
+        expect(expired).toEqual([['short', 'S', 'expired'], ['long', 'L', 'expired']]);
+        expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('keeps sweeping and notifying when a listener throws', () => {
+        const expired: string[] = [];
+        const map = new ExpiringMap<string>({ ttl: 100, sweepInterval: 100, clock: () => now, onExpire: () => { throw new Error('listener failed'); } });
+        map.onExpire(key => expired.push(key));
+        map.set('a', 'A');
+        map.set('b', 'B');
+
+        now = 100;
+        expect(() => jest.advanceTimersByTime(100)).not.toThrow();
+        expect(expired).toEqual(['a', 'b']);
+        expect(map.size).toBe(0);
+    });
+
+    it('refreshes the timestamp on get but not on peek', () => {
+        const map = new ExpiringMap<string>({ ttl: 100, clock: () => now });
+        map.set('a', 'A');
+        map.set('b', 'B');
+
+        now = 90;
+        expect(map.get('a')).toBe('A');
+        expect(map.peek('b')).toBe('B');
+
+        now = 150;
+        map.sweep();
+        expect([...map.keys()]).toEqual(['a']);
+        map.dispose();
+    });
+
+    it('evicts the least recently used key beyond maxSize', () => {
+        const evicted: string[] = [];
+        const map = new ExpiringMap<number>({ maxSize: 2, clock: () => now, onExpire: (key, _item, reason) => evicted.push(`${key}:${reason}`) });
+        map.set('a', 1);
+        map.set('b', 2);
+        map.get('a');
+        map.set('c', 3);
+
+        expect(evicted).toEqual(['b:evicted']);
+        expect([...map.keys()]).toEqual(['a', 'c']);
+        map.dispose();
+    });
+
+    it('stops the sweep interval and listeners on clear and dispose', () => {
+        const listener = jest.fn();
+        const map = new ExpiringMap<string>({ ttl: 100, clock: () => now });
+        const unsubscribe = map.onExpire(listener);
+        map.set('a', 'A');
+
+        map.clear();
+        expect(map.size).toBe(0);
+        expect(jest.getTimerCount()).toBe(0);
+
+        map.set('b', 'B');
+        unsubscribe();
+        map.dispose();
+        now = 1000;
+        jest.advanceTimersByTime(1000);
+        expect(listener).not.toHaveBeenCalled();
+        expect(jest.getTimerCount()).toBe(0);
+    });
+});
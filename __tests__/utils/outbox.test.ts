@@ -0,0 +1,119 @@
+import { OutboxIndexedDB, OutboxLocalMemory, OutboxLocalStorage } from '../../src/lib/outbox';
+import type { OutboxItem } from '../../src/dts/outbox';
+
+const item = (id: string): OutboxItem => ({ id, name: 'orders', data: { data: { id } }, createdAt: 1, expiresAt: 2 });
+
+class MemoryStorage {
+    private values: Map<string, string> = new Map();
+    get length() { return this.values.size; }
+    getItem(key: string) { return this.values.get(key) ?? null; }
+    setItem(key: string, value: string) { this.values.set(key, value); }
+    removeItem(key: string) { this.values.delete(key); }
+    key(index: number) { return Array.from(this.values.keys())[index] ?? null; }
+    clear() { this.values.clear(); }
+}
+
+/**
+ * A fake IDBFactory keeping one auto-incremented object store with a unique `id` index per database.
+ */
+const fakeIndexedDB = () => {
+    const databases: Map<string, Map<number, OutboxItem>> = new Map();
+    let nextKey = 1;
+    const request = (run: () => any) => {
+        const pending: any = {};
+        setTimeout(() => {
+            try {
+                pending.result = run();
+                pending.onsuccess?.();
+            } catch (error) {
+                pending.error = error;
+                pending.onerror?.();
+            }
+        });
+        return pending;
+    };
+
+    const factory = {
+        upgrades: 0,
+        open: (name: string) => {
+            const created = !databases.has(name);
+            if (created) databases.set(name, new Map());
+            const rows = databases.get(name)!;
+            const store = {
+                getAll: () => request(() => Array.from(rows.values())),
+                add: (item: OutboxItem) => request(() => {
+                    if (Array.from(rows.values()).some(row => row.id === item.id)) throw new Error('ConstraintError');
+                    rows.set(nextKey, { ...item });
+                    return nextKey++;
+                }),
+                delete: (key: number) => request(() => rows.delete(key) && undefined),
+                index: () => ({ getKey: (id: string) => request(() => Array.from(rows.entries()).find(([, row]) => row.id === id)?.[0]) }),
+                createIndex: () => undefined,
+            };
+            const db = { transaction: () => ({ objectStore: () => store }), createObjectStore: () => store };
+            const opening: any = { result: db };
+            setTimeout(() => {
+                if (created) {
+                    factory.upgrades++;
+                    opening.onupgradeneeded?.();
+                }
+                opening.onsuccess?.();
+            });
+            return opening;
+        },
+    };
+    return factory;
+};
+
+describe('OutboxLocalMemory', () => {
+    it('returns the items in the order they were saved', async () => {
+        const outbox = new OutboxLocalMemory();
+        await outbox.save(item('b'));
+        await outbox.save(item('a'));
+        await outbox.delete('b');
+        await outbox.save(item('c'));
+
+        expect((await outbox.all()).map(saved => saved.id)).toEqual(['a', 'c']);
+    });
+});
+
+describe('OutboxLocalStorage', () => {
+    it('keeps the items in one key and removes it once empty', async () => {
+        const storage = new MemoryStorage();
+        const outbox = new OutboxLocalStorage('outbox', storage);
+        await outbox.save(item('b'));
+        await outbox.save(item('a'));
+
+        const reopened = new OutboxLocalStorage('outbox', storage);
+        expect((await reopened.all()).map(saved => saved.id)).toEqual(['b', 'a']);
+
+        await reopened.delete('b');
+        await reopened.delete('a');
+        expect(storage.getItem('outbox')).toBeNull();
+    });
+
+    it('treats a corrupted value as an empty outbox', async () => {
+        const storage = new MemoryStorage();
+        storage.setItem('outbox', '{not json');
+
+        expect(await new OutboxLocalStorage('outbox', storage).all()).toEqual([]);
+    });
+});
+
+describe('OutboxIndexedDB', () => {
+    it('returns the items in the order they were saved, across instances', async () => {
+        const factory = fakeIndexedDB();
+        const outbox = new OutboxIndexedDB('lemur', 'outbox', factory as unknown as IDBFactory);
+        await outbox.save(item('b'));
+        await outbox.save(item('a'));
+        await outbox.save(item('b')); // Saved again, it moves behind `a`
+
+        const reopened = new OutboxIndexedDB('lemur', 'outbox', factory as unknown as IDBFactory);
+        expect((await reopened.all()).map(saved => saved.id)).toEqual(['a', 'b']);
+
+        await reopened.delete('a');
+        await reopened.delete('missing');
+        expect((await reopened.all()).map(saved => saved.id)).toEqual(['b']);
+        expect(factory.upgrades).toBe(1);
+    });
+});
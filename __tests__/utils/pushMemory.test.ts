@@ -0,0 +1,192 @@
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MetricsLocalMemory, PushLocalMemory } from '../../src/lib/web-push-lemur/memory';
+import { MetricsFileMemory, PushFileMemory } from '../../src/lib/web-push-lemur/file-memory';
+import { PushSqliteMemory } from '../../src/lib/web-push-lemur/sqlite-memory';
+import initSqlJs from 'sql.js';
+import type { SqliteDatabase, Subscription } from '../../src/dts/push';
+
+const subscription = (endpoint: string, extra: Record<string, any> = {}): Subscription => ({
+    endpoint,
+    keys: { p256dh: 'p256dh', auth: 'auth' },
+    ...extra
+});
+
+describe('PushLocalMemory', () => {
+    let memory: PushLocalMemory<Subscription>;
+
+    beforeEach(async () => {
+        memory = new PushLocalMemory();
+        await memory.save(subscription('https://push/c', { lang: 'es' }), 'c');
+        await memory.save(subscription('https://push/a', { lang: 'en' }), 'a');
+        await memory.save(subscription('https://push/b', { lang: 'es' }), 'b');
+    });
+
+    it('counts and finds subscriptions by field', async () => {
+        expect(await memory.count()).toBe(3);
+        expect((await memory.findBy('lang', 'es')).map(item => item.id).sort()).toEqual(['b', 'c']);
+        expect(await memory.findBy('id', 'a')).toMatchObject([{ endpoint: 'https://push/a' }]);
+    });
+
+    it('pages through subscriptions ordered by ID', async () => {
+        const first = await memory.list(undefined, 2);
+        expect(first.items.map(item => item.id)).toEqual(['a', 'b']);
+
+        await memory.delete('b');
+        const second = await memory.list(first.cursor, 2);
+        expect(second).toEqual({ items: [expect.objectContaining({ id: 'c' })], cursor: undefined });
+    });
+});
+
+/**
+ * An in-memory SQLite database (sql.js) behind the better-sqlite3 API used by PushSqliteMemory.
+ */
+const sqliteDatabase = async (): Promise<SqliteDatabase> => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    const rows = (sql: string, params: any[]) => {
+        const statement = db.prepare(sql);
+        statement.bind(params);
+        const result: any[] = [];
+        while (statement.step()) result.push(statement.getAsObject());
+        statement.free();
+        return result;
+    };
+    return {
+        exec: (sql: string) => db.exec(sql),
+        prepare: (sql: string) => ({
+            run: (...params: any[]) => db.run(sql, params),
+            get: (...params: any[]) => rows(sql, params)[0],
+            all: (...params: any[]) => rows(sql, params),
+        }),
+    };
+};
+
+describe('PushSqliteMemory', () => {
+    let memory: PushSqliteMemory<Subscription>;
+
+    beforeEach(async () => {
+        memory = new PushSqliteMemory(await sqliteDatabase());
+        await memory.save(subscription('https://push/c', { lang: 'es' }), 'c');
+        await memory.save(subscription('https://push/a', { lang: 'en' }), 'a');
+        await memory.save(subscription('https://push/b', { lang: 'es', muted: true }), 'b');
+    });
+
+    it('counts and finds subscriptions by field', async () => {
+        expect(await memory.count()).toBe(3);
+        expect((await memory.findBy('lang', 'es')).map(item => item.id)).toEqual(['b', 'c']);
+        expect((await memory.findBy('muted', true)).map(item => item.id)).toEqual(['b']);
+        expect(await memory.findBy('id', 'a')).toMatchObject([{ id: 'a', endpoint: 'https://push/a' }]);
+    });
+
+    it('pages through subscriptions ordered by ID', async () => {
+        await memory.save(subscription('https://push/empty'), ''); // Sorted first, found without a cursor
+        const first = await memory.list(undefined, 2);
+        expect(first.items.map(item => item.id)).toEqual(['', 'a']);
+
+        await memory.delete('b');
+        const second = await memory.list(first.cursor, 2);
+        expect(second).toEqual({ items: [expect.objectContaining({ id: 'c' })], cursor: undefined });
+    });
+
+    it('replaces a subscription saved under the same ID', async () => {
+        await memory.save(subscription('https://push/a2', { lang: 'fr' }), 'a');
+        expect(await memory.one('a')).toMatchObject({ endpoint: 'https://push/a2', lang: 'fr' });
+        expect(await memory.count()).toBe(3);
+    });
+});
+
+describe('MetricsLocalMemory', () => {
+    it('breaks down the metrics by status, label, time window and latency', async () => {
+        let now = Date.UTC(2025, 0, 1);
+        const metrics = new MetricsLocalMemory(() => now, [100, 1000]);
+
+        await metrics.increment('successful', { statusCode: 201, label: 'news', latency: 80 });
+        await metrics.increment('retried', { statusCode: 503, label: 'news', latency: 400 });
+        now += 2 * 60 * 1000;
+        await metrics.increment('failed', { label: 'news', latency: 3000 });
+        await metrics.increment('expired', { statusCode: 410 });
+
+        const snapshot = await metrics.getMetrics();
+        expect(snapshot).toMatchObject({
+            successful: 1, failed: 1, retried: 1, expired: 1,
+            byStatus: { '201': 1, '503': 1, error: 1 },
+            byLabel: { news: { successful: 1, failed: 1, retried: 1, expired: 0 } },
+            windows: {
+                minute: { successful: 0, failed: 1, retried: 0, expired: 1 },
+                hour: { successful: 1, failed: 1, retried: 1, expired: 1 },
+            },
+            latency: { buckets: [{ le: 100, count: 1 }, { le: 1000, count: 2 }], sum: 3480, count: 3 },
+        });
+
+        now += 2 * 60 * 60 * 1000;
+        expect((await metrics.getMetrics()).windows).toMatchObject({
+            hour: { successful: 0, failed: 0 },
+            day: { successful: 1, failed: 1, retried: 1, expired: 1 },
+        });
+
+        await metrics.resetMetrics();
+        expect(await metrics.getMetrics()).toMatchObject({ successful: 0, byLabel: {}, latency: { count: 0 } });
+    });
+});
+
+describe('PushFileMemory', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'lemur-push-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps subscriptions across instances', async () => {
+        const path = join(dir, 'subscriptions.json');
+        const memory = new PushFileMemory<Subscription>(path);
+        expect(await memory.count()).toBe(0);
+
+        await Promise.all([
+            memory.save(subscription('https://push/a'), 'a'),
+            memory.save(subscription('https://push/b'), 'b')
+        ]);
+        await memory.delete('a');
+
+        expect(Object.keys(JSON.parse(readFileSync(path, 'utf8')))).toEqual(['b']);
+        expect(readdirSync(dir)).toEqual(['subscriptions.json']);
+
+        const reopened = new PushFileMemory<Subscription>(path);
+        expect(await reopened.one('b')).toMatchObject({ endpoint: 'https://push/b' });
+        expect(await reopened.count()).toBe(1);
+    });
+});
+
+describe('MetricsFileMemory', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'lemur-metrics-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps the metrics across instances', async () => {
+        const path = join(dir, 'metrics.json');
+        const metrics = new MetricsFileMemory(path, 60000);
+        await metrics.increment('successful', { statusCode: 201, label: 'news', latency: 20 });
+        await metrics.increment('failed', { statusCode: 400, latency: 30 });
+        await metrics.flush();
+
+        const reopened = new MetricsFileMemory(path);
+        expect(await reopened.getMetrics()).toMatchObject({
+            successful: 1,
+            failed: 1,
+            byStatus: { '201': 1, '400': 1 },
+            byLabel: { news: { successful: 1 } },
+            latency: { sum: 50, count: 2 },
+        });
+    });
+});
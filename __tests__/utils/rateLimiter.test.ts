@@ -0,0 +1,51 @@
+import { RateLimitLocalMemory } from '../../src/lib/rate-limiter';
+
+describe('RateLimitLocalMemory', () => {
+    const rule = { capacity: 2, refillPerSecond: 1 };
+    let now: number;
+    let store: RateLimitLocalMemory;
+
+    beforeEach(() => {
+        now = 0;
+        store = new RateLimitLocalMemory(() => now);
+    });
+
+    it('allows a burst up to the capacity', async () => {
+        expect(await store.consume('a', rule)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+        expect(await store.consume('a', rule)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+        expect(await store.consume('a', rule)).toEqual({ allowed: false, remaining: 0, retryAfter: 1000 });
+    });
+
+    it('refills the bucket over time', async () => {
+        await store.consume('a', rule);
+        await store.consume('a', rule);
+
+        now = 500;
+        expect(await store.consume('a', rule)).toMatchObject({ allowed: false, retryAfter: 500 });
+
+        now = 1000;
+        expect(await store.consume('a', rule)).toMatchObject({ allowed: true });
+    });
+
+    it('leaves out the retry time of a bucket that never refills', async () => {
+        const fixed = { capacity: 1, refillPerSecond: 0 };
+        await store.consume('a', fixed);
+
+        expect(await store.consume('a', fixed)).toEqual({ allowed: false, remaining: 0 });
+    });
+
+    it('keeps a separate bucket per key', async () => {
+        await store.consume('a', rule);
+        await store.consume('a', rule);
+
+        expect(await store.consume('b', rule)).toMatchObject({ allowed: true });
+    });
+
+    it('starts over after reset', async () => {
+        await store.consume('a', rule);
+        await store.consume('a', rule);
+        await store.reset('a');
+
+        expect(await store.consume('a', rule)).toMatchObject({ allowed: true, remaining: 1 });
+    });
+});
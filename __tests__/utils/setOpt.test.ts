@@ -47,4 +47,18 @@ describe('setOpt', () => {
             authorization: 'Bearer abc123',
         });
     });
+
+    it('no debe pasar el outbox a Socket.IO', () => {
+        const result = setOpt({ token: 'abc123', outbox: true });
+
+        expect(result).not.toHaveProperty('outbox');
+    });
+
+    it('debe pedir el token a getToken en cada conexión', async () => {
+        const result = setOpt({ apiKey: 'my-api-key', getToken: async () => 'fresh' });
+
+        expect(result).not.toHaveProperty('getToken');
+        const auth = await new Promise(resolve => result.auth(resolve));
+        expect(auth).toEqual({ 'x-api-key': 'my-api-key', authorization: 'Bearer fresh' });
+    });
 });
@@ -0,0 +1,62 @@
+import { validateSchema } from '../../src/lib/schema';
+
+describe('validateSchema', () => {
+    const schema = {
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 2 },
+            qty: { type: 'integer', minimum: 1 },
+            tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name'],
+        additionalProperties: false,
+    } as const;
+
+    it('accepts data matching a JSON-Schema', () => {
+        expect(validateSchema(schema, { name: 'coffee', qty: 2, tags: ['hot'] })).toEqual({
+            success: true,
+            data: { name: 'coffee', qty: 2, tags: ['hot'] },
+        });
+    });
+
+    it('collects every JSON-Schema issue with its path', () => {
+        const result = validateSchema(schema, { qty: 1.5, tags: ['hot', 3], extra: true });
+
+        expect(result.success).toBe(false);
+        expect(!result.success && result.error).toEqual([
+            { path: 'name', message: 'is required' },
+            { path: 'qty', message: 'must be an integer' },
+            { path: 'tags.1', message: 'must be a string' },
+            { path: 'extra', message: 'is not allowed' },
+        ]);
+    });
+
+    it('does not take inherited keys for declared properties', () => {
+        const result = validateSchema(schema, JSON.parse('{ "name": "coffee", "constructor": 1, "toString": 2, "__proto__": 3 }'));
+
+        expect(!result.success && result.error).toEqual([
+            { path: 'constructor', message: 'is not allowed' },
+            { path: 'toString', message: 'is not allowed' },
+            { path: '__proto__', message: 'is not allowed' },
+        ]);
+        expect(validateSchema({ ...schema, required: ['constructor'] }, { name: 'coffee' }).success).toBe(false);
+    });
+
+    it('uses the parsed data of a safeParse schema', () => {
+        const trimmed = {
+            safeParse: (data: any) => typeof data?.name === 'string'
+                ? { success: true as const, data: { name: data.name.trim() } }
+                : { success: false as const, error: { issues: [{ path: ['name'], message: 'Required' }] } },
+        };
+
+        expect(validateSchema(trimmed, { name: ' tea ' })).toEqual({ success: true, data: { name: 'tea' } });
+        expect(validateSchema(trimmed, {})).toEqual({ success: false, error: [{ path: 'name', message: 'Required' }] });
+    });
+
+    it('accepts type guards as validators', () => {
+        const isOrder = (data: unknown): data is { id: number } => typeof (data as any)?.id === 'number';
+
+        expect(validateSchema(isOrder, { id: 1 }).success).toBe(true);
+        expect(validateSchema(isOrder, { id: '1' })).toEqual({ success: false, error: [{ path: '', message: 'Invalid value' }] });
+    });
+});
@@ -0,0 +1,265 @@
+import webPush from 'web-push';
+import { WebPushLemur } from '../../src/lib/web-push-lemur';
+import { PushLocalMemory, MetricsLocalMemory, QueueLocalMemory } from '../../src/lib/web-push-lemur/memory';
+import type { Subscription } from '../../src/dts/push';
+
+jest.mock('web-push');
+
+const sendNotification = webPush.sendNotification as jest.MockedFunction<typeof webPush.sendNotification>;
+const silent = { log: async () => { }, error: async () => { }, warn: async () => { }, info: async () => { } };
+const settings = { vapidPublicKey: 'public', vapidPrivateKey: 'private', email: 'ops@example.com', retrySend: { retries: 2, delay: 1 } };
+
+const subscription = (endpoint: string, extra: Record<string, any> = {}): Subscription => ({
+    endpoint,
+    keys: { p256dh: 'p256dh', auth: 'auth' },
+    ...extra
+});
+
+describe('WebPushLemur', () => {
+    let push: WebPushLemur<Subscription>;
+
+    beforeEach(async () => {
+        sendNotification.mockReset();
+        sendNotification.mockResolvedValue({ statusCode: 201, body: '', headers: {} });
+        push = new WebPushLemur<Subscription>(settings, 'id', new PushLocalMemory(), new MetricsLocalMemory(), silent);
+        await push.add('ana', subscription('https://push/ana', { locale: 'es' }));
+        await push.add('ben', subscription('https://push/ben', { locale: 'en' }));
+    });
+
+    const endpoints = () => sendNotification.mock.calls.map(([target]) => target.endpoint).sort();
+
+    it('sends to the subscriptions of a topic', async () => {
+        await push.subscribe('ana', ['offers', 'news']);
+        await push.subscribe('ben', ['news']);
+        await push.unsubscribe('ana', ['news']);
+
+        await push.sendNotificationToTopic('news', { title: 'News' });
+        expect(endpoints()).toEqual(['https://push/ben']);
+
+        sendNotification.mockClear();
+        await push.sendNotificationToTopic('offers', { title: 'Offers' });
+        expect(endpoints()).toEqual(['https://push/ana']);
+    });
+
+    it('sends to the subscriptions matching a predicate', async () => {
+        await push.sendNotificationWhere(target => target.locale === 'es', { title: 'Hola' });
+        expect(endpoints()).toEqual(['https://push/ana']);
+    });
+
+    it('sends to every device of a user and removes only the dead endpoint', async () => {
+        await push.addDevice('carla', subscription('https://push/phone'));
+        await push.addDevice('carla', subscription('https://push/laptop'));
+        await push.addDevice('carla', subscription('https://push/phone'));
+        expect((await push.getDevices('carla')).map(device => device.endpoint).sort()).toEqual(['https://push/laptop', 'https://push/phone']);
+
+        sendNotification.mockImplementation(async target => {
+            if (target.endpoint === 'https://push/phone') throw Object.assign(new Error('Gone'), { statusCode: 410 });
+            return { statusCode: 201, body: '', headers: {} };
+        });
+        await push.sendNotificationToUser('carla', { title: 'Hi' });
+
+        expect(endpoints()).toEqual(['https://push/laptop', 'https://push/phone']);
+        expect((await push.getDevices('carla')).map(device => device.endpoint)).toEqual(['https://push/laptop']);
+    });
+
+    const failure = (statusCode?: number, headers: Record<string, string> = {}) => Object.assign(new Error(`Failed ${statusCode}`), { statusCode, headers });
+
+    it('retries 5xx and network errors with backoff until it succeeds', async () => {
+        sendNotification
+            .mockRejectedValueOnce(failure(503))
+            .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+            .mockResolvedValueOnce({ statusCode: 201, body: '', headers: {} });
+
+        expect(await push.sendNotificationToOne('ana', { title: 'Hi' })).toMatchObject({ id: 'ana', status: 'sent', statusCode: 201, attempts: 3 });
+        expect(await push.getMetrics()).toMatchObject({ successful: 1, failed: 0, retried: 2, byStatus: { '201': 1, '503': 1, error: 1 } });
+    });
+
+    it('fails at once on other client errors and after the last retry', async () => {
+        sendNotification.mockRejectedValueOnce(failure(400));
+        expect(await push.sendNotificationToOne('ana', { title: 'Hi' })).toMatchObject({ status: 'failed', statusCode: 400, attempts: 1 });
+
+        sendNotification.mockRejectedValue(failure(500));
+        expect(await push.sendNotificationToOne('ana', { title: 'Hi' })).toMatchObject({ status: 'failed', statusCode: 500, attempts: 3 });
+    });
+
+    it('fails at once on errors thrown without a status, such as invalid VAPID keys', async () => {
+        sendNotification.mockImplementationOnce(() => {
+            throw new Error('Vapid public key should be 65 bytes long when decoded.');
+        });
+        expect(await push.sendNotificationToOne('ana', { title: 'Hi' })).toMatchObject({ status: 'failed', attempts: 1 });
+        expect(sendNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('honors Retry-After on 429 and gives up when it is too long', async () => {
+        jest.useFakeTimers();
+        try {
+            sendNotification.mockRejectedValueOnce(failure(429, { 'retry-after': '0.5' }));
+            const sent = push.sendNotificationToOne('ana', { title: 'Hi' });
+            await jest.advanceTimersByTimeAsync(499);
+            expect(sendNotification).toHaveBeenCalledTimes(1);
+            await jest.advanceTimersByTimeAsync(1);
+            expect(await sent).toMatchObject({ status: 'sent', attempts: 2 });
+
+            sendNotification.mockRejectedValueOnce(failure(429, { 'retry-after': '3600' }));
+            expect(await push.sendNotificationToOne('ana', { title: 'Hi' })).toMatchObject({ status: 'failed', statusCode: 429, attempts: 1 });
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('reports the outcome of every subscription', async () => {
+        sendNotification.mockImplementation(async target => {
+            if (target.endpoint === 'https://push/ben') throw failure(404);
+            return { statusCode: 201, body: '', headers: {} };
+        });
+
+        const report = await push.sendNotificationToAll({ title: 'All' });
+        expect(report).toMatchObject({ total: 2, sent: 1, failed: 0, expired: 1 });
+        expect(report.results).toEqual(expect.arrayContaining([expect.objectContaining({ id: 'ben', status: 'expired', statusCode: 404 })]));
+        expect(await push.getSubscriptions()).toHaveLength(1);
+    });
+
+    it('limits the notifications sent at the same time', async () => {
+        const limited = new WebPushLemur<Subscription>({ ...settings, queue: { concurrency: 2 } }, 'id', new PushLocalMemory(), new MetricsLocalMemory(), silent);
+        await Promise.all([1, 2, 3, 4, 5].map(index => limited.add(`user-${index}`, subscription(`https://push/${index}`))));
+
+        let active = 0;
+        let peak = 0;
+        sendNotification.mockImplementation(async () => {
+            peak = Math.max(peak, ++active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            return { statusCode: 201, body: '', headers: {} };
+        });
+
+        expect(await limited.sendNotificationToAll({ title: 'All' })).toMatchObject({ total: 5, sent: 5 });
+        expect(peak).toBe(2);
+    });
+
+    it('frees the slot of a notification while it waits to retry', async () => {
+        jest.useFakeTimers();
+        try {
+            const limited = new WebPushLemur<Subscription>(
+                { ...settings, retrySend: { retries: 1, delay: 1000 }, queue: { concurrency: 1 } },
+                'id', new PushLocalMemory(), new MetricsLocalMemory(), silent
+            );
+            await limited.add('ana', subscription('https://push/ana'));
+            await limited.add('ben', subscription('https://push/ben'));
+            sendNotification.mockRejectedValueOnce(failure(503));
+
+            const sent = limited.sendNotificationToAll({ title: 'All' });
+            await jest.advanceTimersByTimeAsync(10);
+            expect(endpoints()).toEqual(['https://push/ana', 'https://push/ben']); // Ben did not wait for the backoff of Ana
+
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(await sent).toMatchObject({ total: 2, sent: 2 });
+            expect(sendNotification).toHaveBeenCalledTimes(3);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('runs a failed job again with backoff and drops it after the last attempt', async () => {
+        jest.useFakeTimers();
+        const memory = new PushLocalMemory<Subscription>();
+        const list = jest.spyOn(memory, 'list').mockRejectedValue(new Error('database unavailable'));
+        const failing = new WebPushLemur<Subscription>(
+            { ...settings, queue: { pollInterval: 100, maxAttempts: 2, retryDelay: 1000 } },
+            'id', memory, new MetricsLocalMemory(), silent, new QueueLocalMemory()
+        );
+        try {
+            const start = Date.now();
+            const job = await failing.sendAt(start, { type: 'all' }, { title: 'All' });
+            await jest.advanceTimersByTimeAsync(100);
+            expect(await failing.getQueue()).toEqual([
+                expect.objectContaining({ id: job.id, attempts: 1, runAt: start + 1000, lastError: 'database unavailable' })
+            ]);
+
+            await jest.advanceTimersByTimeAsync(800);
+            expect(list).toHaveBeenCalledTimes(1);
+            await jest.advanceTimersByTimeAsync(200);
+            expect(list).toHaveBeenCalledTimes(2);
+            expect(await failing.getQueue()).toEqual([]);
+        } finally {
+            failing.stop();
+            jest.useRealTimers();
+        }
+    });
+
+    it('sends scheduled jobs when due, restored from the queue memory', async () => {
+        jest.useFakeTimers();
+        const memory = new PushLocalMemory<Subscription>();
+        const queue = new QueueLocalMemory();
+        const scheduling = new WebPushLemur<Subscription>({ ...settings, queue: { pollInterval: 100 } }, 'id', memory, new MetricsLocalMemory(), silent, queue);
+        try {
+            await scheduling.add('ana', subscription('https://push/ana', { topics: ['news'] }));
+            await scheduling.add('ben', subscription('https://push/ben'));
+            const news = await scheduling.sendAt(Date.now() + 1000, { type: 'topic', topic: 'news' }, { title: 'News' });
+            const cancelled = await scheduling.sendAt(Date.now() + 1000, { type: 'all' }, { title: 'All' });
+            scheduling.stop();
+
+            expect(await scheduling.cancel(cancelled.id)).toBe(true);
+            expect((await scheduling.getQueue()).map(job => job.id)).toEqual([news.id]);
+
+            const restarted = new WebPushLemur<Subscription>({ ...settings, queue: { pollInterval: 100 } }, 'id', memory, new MetricsLocalMemory(), silent, queue);
+            restarted.start();
+            await jest.advanceTimersByTimeAsync(900);
+            expect(sendNotification).not.toHaveBeenCalled();
+
+            await jest.advanceTimersByTimeAsync(100);
+            expect(endpoints()).toEqual(['https://push/ana']);
+            expect(await restarted.getQueue()).toEqual([]);
+            restarted.stop();
+        } finally {
+            scheduling.stop();
+            jest.useRealTimers();
+        }
+    });
+
+    it('sends TTL, urgency, topic and headers over the defaults', async () => {
+        const configured = new WebPushLemur<Subscription>(
+            { ...settings, sendOptions: { TTL: 60, urgency: 'low', headers: { 'X-App': 'lemur' } } },
+            'id', new PushLocalMemory(), new MetricsLocalMemory(), silent
+        );
+        await configured.add('ana', subscription('https://push/ana'));
+
+        await configured.sendNotificationToOne('ana', { title: 'Defaults' });
+        await configured.sendNotificationToOne('ana', { title: 'Expiring', expireTime: 1500 }, 'id', { urgency: 'high', topic: 'score' });
+
+        expect(sendNotification.mock.calls.map(([, , options]) => options)).toEqual([
+            { TTL: 60, urgency: 'low', headers: { 'X-App': 'lemur' } },
+            { TTL: 2, urgency: 'high', topic: 'score', headers: { 'X-App': 'lemur' } }
+        ]);
+    });
+
+    it('rejects payloads over the encrypted size limit before sending', async () => {
+        const payload = { title: 'Big', body: 'x'.repeat(4000) };
+
+        expect(await push.sendNotificationToOne('ana', payload)).toMatchObject({ status: 'failed', attempts: 0, error: expect.stringContaining('Payload too large') });
+        await expect(push.sendNotificationToAll(payload)).rejects.toThrow('Payload too large');
+        await expect(push.sendAt(Date.now(), { type: 'all' }, payload)).rejects.toThrow('Payload too large');
+        expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('exports the metrics by topic in the Prometheus format', async () => {
+        await push.subscribe('ana', ['news']);
+        await push.subscribe('ben', ['news']);
+        sendNotification.mockImplementation(async target => {
+            if (target.endpoint === 'https://push/ben') throw failure(410);
+            return { statusCode: 201, body: '', headers: {} };
+        });
+        await push.sendNotificationToTopic('news', { title: 'News' });
+
+        const text = await push.getPrometheusMetrics();
+        expect(text).toContain('# TYPE lemur_push_notifications_total counter');
+        expect(text).toContain('lemur_push_notifications_total{outcome="expired"} 1');
+        expect(text).toContain('lemur_push_label_notifications_total{label="news",outcome="successful"} 1');
+        expect(text).toContain('lemur_push_responses_total{status="410"} 1');
+        expect(text).toContain('lemur_push_window_notifications{window="minute",outcome="successful"} 1');
+        expect(text).toContain('lemur_push_request_duration_milliseconds_bucket{le="+Inf"} 2');
+        expect(text).toContain('lemur_push_request_duration_milliseconds_count 2');
+
+        await push.resetMetrics();
+        expect(await push.getMetrics()).toMatchObject({ successful: 0, expired: 0, byLabel: {} });
+    });
+});
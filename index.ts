@@ -4,4 +4,13 @@ export { TokenManager } from "./src/tokenManager"
 
 export { Logger } from './src/lib/logger'
 export { ExpiringMap } from "./src/lib/expiring-map"
-export { WebPushLemur } from './src/lib/web-push-lemur'
\ No newline at end of file
+export type { ExpiringMapOptions, ExpireListener, ExpireReason } from "./src/lib/expiring-map"
+export { WebPushLemur } from './src/lib/web-push-lemur'
+export { PushLocalMemory, MetricsLocalMemory, QueueLocalMemory } from './src/lib/web-push-lemur/memory'
+export { PushFileMemory, MetricsFileMemory } from './src/lib/web-push-lemur/file-memory'
+export { PushSqliteMemory } from './src/lib/web-push-lemur/sqlite-memory'
+export { LemurError, isLemurErrorEnvelope } from './src/lib/lemur-error'
+export { RateLimitLocalMemory } from './src/lib/rate-limiter'
+export { ClusterStateLocalMemory, InProcessCluster } from './src/lib/cluster'
+export { toPrometheus } from './src/lib/prometheus'
+export { OutboxLocalMemory, OutboxLocalStorage, OutboxIndexedDB } from './src/lib/outbox'
\ No newline at end of file
@@ -1,16 +1,25 @@
 import { BroadcastOperator, ServerOptions } from 'socket.io';
+import { LemurSocket } from './modules';
 import { ManagerOptions, SocketOptions } from 'socket.io-client';
 import { WebPushLemur } from '../lib/web-push-lemur';
 import { Subscription } from './push';
+import { LemurSchema } from './schema';
+import { RateLimitRule, RateLimitSettings } from './rate-limit';
+import { ClusterSettings } from './cluster';
+import { MetricsSettings } from './stats';
+import { HealthSettings } from './health';
+import { OutboxSettings } from './outbox';
 
 declare interface LemurSecurity extends Partial<ManagerOptions & Omit<SocketOptions, 'auth'>> {
     apiKey?: string;
     token?: string;
     auth?: Record<string, any>;
     transformOptions?: (auth: Record<string, any>) => Record<string, any>; // Nueva propiedad
+    outbox?: boolean | OutboxSettings; // Queues the emits made while disconnected and replays them on connect.
+    getToken?: () => string | Promise<string>; // Called on every (re)connect and when the server answers `unauthorized`.
 }
 
-declare type Params = Record<string, any> & { room?: string, authorization?: string }
+declare type Params = Record<string, any> & { room?: string, authorization?: string, requestId?: string, idempotencyKey?: string }
 declare type LemurRequest<T, S> = {
     session: S | undefined;
     params: Params;
@@ -24,19 +33,81 @@ declare type LemurData<T> = {
 
 declare type LemurOpts<T> = {
     onSuccess: OnSuccessCallback<T>
-    onError?: OnErrorCallback
+    onError?: OnLemurErrorCallback
     successChannel?: string
     room?: string
+    timeout?: number // Default timeout in milliseconds for `request`.
 }
 
+declare type LemurRequestOpts = {
+    token?: string
+    timeout?: number // Milliseconds to wait for the acknowledgement.
+}
+
+declare type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'unauthorized';
+
+/**
+ * Passed to the `onStateChange` listeners of SocketClient, on every change of state or reconnection attempt.
+ */
+declare interface ConnectionStateChange {
+    state: ConnectionState,
+    previous: ConnectionState,
+    attempt: number, // Reconnection attempts since the connection was lost.
+    delay?: number, // Milliseconds before the next attempt (before jitter), while reconnecting.
+    error?: any // The `LemurErrorEnvelope` or error of the last failed connection, if any.
+}
+
+declare type ReconnectInfo = Pick<ConnectionStateChange, 'attempt' | 'delay'>;
+
+/**
+ * A room of a channel the client is in, joined again after every reconnection.
+ */
+declare interface RoomMembership {
+    channel: string,
+    room?: string
+}
+
+/**
+ * Passed to the `onReconnect` listeners of SocketClient, once the rooms were joined again.
+ */
+declare interface ReconnectEvent {
+    attempts: number, // Reconnection attempts it took.
+    downtime: number, // Milliseconds since the connection was lost.
+    recovered: boolean, // Whether the server restored the socket with `connectionStateRecovery`.
+    rooms: RoomMembership[] // The rooms joined again.
+}
+
+declare type LemurAckResponse<T = any> = { data: T } | { error: LemurErrorEnvelope };
+declare type LemurAck<T = any> = (response: LemurAckResponse<T>) => void;
+
 declare type LemurNext = (err?: any | undefined) => void;
+
+/**
+ * Context shared by the middleware of a request.
+ */
+declare interface LemurContext<S> {
+    channel: string,
+    socket: LemurSocket<S>,
+    room?: string,
+    requestId?: string,
+    state: Record<string, any>, // Free space for middleware to pass data along.
+    startedAt: number // Timestamp in milliseconds when the event was received.
+}
+
+declare type LemurMiddlewareNext = (error?: unknown) => Promise<void>;
+declare type LemurMiddleware<T = any, S = any> = (
+    request: LemurRequest<T, S>,
+    ctx: LemurContext<S>,
+    next: LemurMiddlewareNext
+) => void | Promise<void>;
 declare type LemurResponse = (data: any) => void;
-declare type LemurCatch = (data: string) => void;
+declare type LemurCatch = (error: string | Error) => void; // A LemurError sets the code sent to the client.
 
 declare type LemurSocketOptions = {
     room?: string,
     to(name: string, data: any, room: string | Array<string>): void,
-    emit(channel: string, data: any): void
+    emit(channel: string, data: any): void,
+    reply(data: any): void // Answers the caller, through the acknowledgement when one was sent.
 };
 
 declare type LemurCustomSimpleEvent<T, S> = (
@@ -76,6 +147,31 @@ declare interface LemurEmit<T> {
 
 declare type OnSuccessCallback<T = any> = (data: T) => void
 declare type OnErrorCallback = (error: any) => void
+declare type OnLemurErrorCallback = (error: LemurErrorEnvelope) => void
+
+declare type LemurErrorCode =
+    | 'unauthorized'
+    | 'forbidden'
+    | 'invalid_api_key'
+    | 'validation_failed'
+    | 'rate_limited'
+    | 'handler_exception'
+    | 'unknown_channel'
+    | 'timeout'
+    | 'in_progress'
+    | (string & {}); // Custom codes raised by handlers.
+
+/**
+ * Payload emitted on `${channel}:error` and in acknowledgement errors.
+ */
+declare interface LemurErrorEnvelope {
+    code: LemurErrorCode,
+    message: string,
+    channel?: string, // Missing for handshake errors.
+    requestId?: string, // The `params.requestId` of the failed request.
+    details?: any, // e.g. the validation issues.
+    retryable: boolean
+}
 
 declare interface ExpirationTime {
     state: true,
@@ -87,14 +183,88 @@ declare interface ServerSettings {
     secret?: string,
     options?: Partial<ServerOptions>
     roomsEnabled?: boolean | ExpirationTime
+    /**
+     * What happens to a socket whose token expires while connected:
+     * `reject` drops the session so protected channels fail (default), `disconnect` closes the socket.
+     */
+    sessionExpiration?: 'reject' | 'disconnect'
+    /**
+     * Session claims holding the roles and scopes checked by `ChannelOptions.roles` and `scopes`.
+     * Defaults to `roles` and `scope`; both accept an array or a space separated string.
+     */
+    claims?: { roles?: string, scopes?: string }
+    rateLimit?: RateLimitSettings
+    /**
+     * Socket.IO adapter and shared room state for running several nodes behind a load balancer.
+     */
+    cluster?: ClusterSettings
+    /**
+     * Serves `getPrometheusMetrics()` on `/metrics` (or `path`) of the HTTP server created by the constructor.
+     */
+    metrics?: boolean | MetricsSettings
+    /**
+     * Serves liveness, readiness and info routes on the HTTP server created by the constructor.
+     */
+    health?: boolean | HealthSettings
+    /**
+     * Remembers the `params.idempotencyKey` of the events for `ttl` milliseconds (default is 24 hours), by user (or socket) and channel,
+     * once their handler answered. A repeated key gets the original result back instead of running the handler again.
+     * A key stays claimed for `pendingTtl` milliseconds (default is 60000) while the handler has not answered;
+     * a repeat meanwhile gets a retryable `in_progress` error.
+     */
+    idempotency?: boolean | { ttl?: number, maxKeys?: number, pendingTtl?: number }
+}
+
+declare interface ChannelOptions<S = LemurSchema> {
+    tokenRequired?: boolean,
+    roomSupport?: boolean,
+    pushManager?: WebPushLemur<Subscription>,
+    schema?: S, // Validates `request.body` before the handler runs.
+    paramsSchema?: LemurSchema // Validates `request.params` before the handler runs.
+    use?: Array<LemurMiddleware> // Runs after the global middleware of `server.use`.
+    roles?: Array<string> // The session needs at least one of these roles.
+    scopes?: Array<string> // The session needs all of these scopes.
+    authorize?: LemurAuthorize<any, any> // Checked on every event of the channel.
+    authorizeJoin?: LemurAuthorizeJoin<any> // Checked on every `${name}:join`.
+    rateLimit?: RateLimitRule // Limit for the events of a socket on this channel.
 }
 
+declare type LemurAuthorize<T, S> = (session: S | undefined, request: LemurRequest<T, S>) => boolean | Promise<boolean>;
+declare type LemurJoinGuard<S> = (socket: LemurSocket<S>, room: string, channel: string) => boolean | Promise<boolean>;
+
+declare interface RoomMember<S> {
+    id: string, // The socket id.
+    session?: S
+}
+
+/**
+ * Payload emitted on `${channel}:presence` when a socket joins or leaves a room.
+ */
+declare interface RoomPresence {
+    room: string,
+    type: 'joined' | 'left',
+    id: string, // The socket id.
+    count: number // Members left in the room.
+}
+
+declare type RoomExpiredListener<S> = (room: string, members: Array<RoomMember<S>>) => void;
+
+declare type LemurAuthorizeJoin<S> = (session: S | undefined, room: string) => boolean | Promise<boolean>;
+
 declare interface Channel<T> {
     onEvent: LemurEvent<any, T>,
     tokenRequired: boolean,
     roomSupport: boolean,
     type: 'custom' | 'simple',
     pushManager?: WebPushLemur<Subscription>
+    schema?: LemurSchema,
+    paramsSchema?: LemurSchema,
+    middleware?: Array<LemurMiddleware<any, T>>,
+    roles?: Array<string>,
+    scopes?: Array<string>,
+    authorize?: LemurAuthorize<any, T>,
+    authorizeJoin?: LemurAuthorizeJoin<T>,
+    rateLimit?: RateLimitRule
 }
 
 declare interface ConnectionOpt {
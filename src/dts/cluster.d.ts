@@ -0,0 +1,102 @@
+import type { ServerOptions } from 'socket.io';
+
+/**
+ * A socket in a room, as seen by every node of the cluster.
+ */
+export declare interface ClusterMember<S = any> {
+    /**
+     * The socket id.
+     */
+    id: string;
+
+    /**
+     * The node the socket is connected to.
+     */
+    node: string;
+
+    /**
+     * The channel the room was joined through.
+     */
+    channel: string;
+
+    /**
+     * The session of the socket when it joined.
+     */
+    session?: S;
+}
+
+/**
+ * Room membership shared by the nodes of a cluster, so members and presence counts are global.
+ */
+export declare interface LemurClusterState<S = any> {
+    /**
+     * Adds a socket to a room.
+     *
+     * @param {string} room - The name of the room.
+     * @param {ClusterMember<S>} member - The socket joining.
+     * @returns {Promise<number>} A promise that resolves with the members of the room.
+     */
+    join(room: string, member: ClusterMember<S>): Promise<number>;
+
+    /**
+     * Removes a socket from a room.
+     *
+     * @param {string} room - The name of the room.
+     * @param {string} id - The socket id.
+     * @returns {Promise<number>} A promise that resolves with the members left in the room.
+     */
+    leave(room: string, id: string): Promise<number>;
+
+    /**
+     * Retrieves the members of a room on every node.
+     *
+     * @param {string} room - The name of the room.
+     * @returns {Promise<Array<ClusterMember<S>>>} A promise that resolves with the members.
+     */
+    members(room: string): Promise<Array<ClusterMember<S>>>;
+
+    /**
+     * Retrieves the rooms a socket joined.
+     *
+     * @param {string} id - The socket id.
+     * @returns {Promise<string[]>} A promise that resolves with the names of the rooms.
+     */
+    rooms(id: string): Promise<string[]>;
+
+    /**
+     * Records activity in a room with members, so no node expires it while another one keeps it busy.
+     *
+     * @param {string} room - The name of the room.
+     * @param {number} at - The timestamp in milliseconds of the activity.
+     * @returns {Promise<void>} A promise that resolves when the activity is recorded.
+     */
+    touch(room: string, at: number): Promise<void>;
+
+    /**
+     * Retrieves the last activity in a room on any node.
+     *
+     * @param {string} room - The name of the room.
+     * @returns {Promise<number | undefined>} A promise that resolves with the timestamp in milliseconds, if any.
+     */
+    activeAt(room: string): Promise<number | undefined>;
+}
+
+/**
+ * Cluster settings of a SocketServer.
+ */
+export declare interface ClusterSettings {
+    /**
+     * Socket.IO adapter relaying broadcasts between the nodes (e.g. `@socket.io/redis-adapter`).
+     */
+    adapter?: ServerOptions['adapter'];
+
+    /**
+     * Shared room membership (default is in memory, this node only).
+     */
+    state?: LemurClusterState;
+
+    /**
+     * Identifier of this node (default is random).
+     */
+    nodeId?: string;
+}
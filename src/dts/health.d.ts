@@ -0,0 +1,60 @@
+/**
+ * A readiness check registered with `SocketServer.addReadinessCheck`.
+ * The server is not ready while it resolves false, rejects or takes longer than `HealthSettings.timeout`.
+ */
+export declare type ReadinessCheck = () => boolean | void | Promise<boolean | void>;
+
+/**
+ * Health settings of a SocketServer, for the routes of the HTTP server created by its constructor.
+ */
+export declare interface HealthSettings {
+    /**
+     * Path of the liveness route (default is "/healthz").
+     */
+    livenessPath?: string;
+
+    /**
+     * Path of the readiness route (default is "/readyz").
+     */
+    readinessPath?: string;
+
+    /**
+     * Milliseconds a readiness check may take before it fails (default is 5000).
+     */
+    timeout?: number;
+
+    /**
+     * Serves `getInfo()` on "/info" (or `path`), with `version` only when it is set here.
+     */
+    info?: boolean | { path?: string; version?: string };
+}
+
+/**
+ * Outcome of the readiness checks, served on the readiness route.
+ */
+export declare interface ReadinessReport {
+    status: 'ok' | 'fail';
+    checks: Record<string, { status: 'ok' | 'fail'; duration: number; error?: string }>;
+}
+
+/**
+ * Description of a SocketServer, served on the info route.
+ */
+export declare interface ServerInfo {
+    version?: string;
+
+    /**
+     * Seconds since the server was created.
+     */
+    uptime: number;
+
+    /**
+     * Identifier of this node of the cluster.
+     */
+    node: string;
+
+    /**
+     * The names of the channels.
+     */
+    channels: string[];
+}
@@ -0,0 +1,94 @@
+import type { LemurData } from './browser';
+
+/**
+ * An emit queued by `SocketClient` while disconnected.
+ */
+export declare interface OutboxItem {
+    /**
+     * The idempotency key, also sent as `params.idempotencyKey`.
+     */
+    id: string;
+
+    /**
+     * The event name.
+     */
+    name: string;
+
+    /**
+     * The payload of the event.
+     */
+    data: LemurData<any>;
+
+    /**
+     * Timestamp in milliseconds when it was queued.
+     */
+    createdAt: number;
+
+    /**
+     * Timestamp in milliseconds after which it is dropped instead of sent.
+     */
+    expiresAt: number;
+}
+
+/**
+ * Storage of the outbox, returning the items in the order they were saved.
+ */
+export declare interface OutboxStorage {
+    /**
+     * Retrieves the queued items, oldest first.
+     *
+     * @returns {Promise<OutboxItem[]>} A promise that resolves with the items.
+     */
+    all(): Promise<OutboxItem[]>;
+
+    /**
+     * Queues an item.
+     *
+     * @param {OutboxItem} item - The item to queue.
+     * @returns {Promise<void>} A promise that resolves when the item is saved.
+     */
+    save(item: OutboxItem): Promise<void>;
+
+    /**
+     * Removes an item.
+     *
+     * @param {string} id - The idempotency key of the item.
+     * @returns {Promise<void>} A promise that resolves when the item is removed.
+     */
+    delete(id: string): Promise<void>;
+}
+
+/**
+ * Outbox settings of a SocketClient.
+ */
+export declare interface OutboxSettings {
+    /**
+     * Where the queued emits are kept (default is in memory).
+     */
+    storage?: OutboxStorage;
+
+    /**
+     * Milliseconds a queued emit may wait for a connection (default is 24 hours).
+     */
+    ttl?: number;
+
+    /**
+     * Milliseconds to wait for the server to acknowledge a replayed emit before sending it again (default is 10000).
+     */
+    timeout?: number;
+}
+
+/**
+ * An idempotency key remembered by SocketServer.
+ */
+export declare interface IdempotentEvent {
+    /**
+     * Whether the handler answered, false while it runs.
+     */
+    done: boolean;
+
+    /**
+     * The result sent back to the first event, sent again to the repeats.
+     */
+    data?: any;
+}
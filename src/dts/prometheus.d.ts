@@ -0,0 +1,38 @@
+/**
+ * A sample of a metric in the Prometheus text format.
+ */
+export declare interface PrometheusSample {
+    /**
+     * The labels of the sample.
+     */
+    labels?: Record<string, string | number>;
+
+    /**
+     * The value of the sample.
+     */
+    value: number;
+
+    /**
+     * Appended to the metric name, e.g. `_bucket`, `_sum` and `_count` for histograms.
+     */
+    suffix?: string;
+}
+
+/**
+ * A metric family in the Prometheus text format.
+ */
+export declare interface PrometheusMetric {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge' | 'histogram';
+    samples: PrometheusSample[];
+}
+
+/**
+ * A histogram with cumulative bucket counts.
+ */
+export declare interface PrometheusHistogram {
+    buckets: Array<{ le: number; count: number }>;
+    sum: number;
+    count: number;
+}
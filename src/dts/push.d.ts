@@ -22,6 +22,16 @@ export declare interface Subscription {
         auth: string;
     };
 
+    /**
+     * The user of a device subscription, see `WebPushLemur.addDevice`.
+     */
+    userId?: string;
+
+    /**
+     * Topics the subscription receives, see `WebPushLemur.subscribe`.
+     */
+    topics?: string[];
+
     /**
      * Additional properties for the subscription.
      */
@@ -47,22 +57,153 @@ export declare interface Settings {
      */
     email: string;
 
+    /**
+     * Subscriptions loaded per page by `sendNotificationToAll` (default is 500).
+     */
+    pageSize?: number;
+
+    /**
+     * Default options of every notification, overridden by the options of each send.
+     */
+    sendOptions?: SendOptions;
+
+    /**
+     * Optional limits of the delivery queue.
+     */
+    queue?: {
+        /**
+         * Maximum notifications sent at the same time (default is 100).
+         */
+        concurrency?: number;
+
+        /**
+         * Maximum notifications started per second (default is unlimited).
+         */
+        ratePerSecond?: number;
+
+        /**
+         * Milliseconds between checks for due scheduled jobs (default is 1000).
+         */
+        pollInterval?: number;
+
+        /**
+         * Runs of a scheduled job before it is dropped, when every run fails (default is 5).
+         */
+        maxAttempts?: number;
+
+        /**
+         * Milliseconds before running a failed job again, doubled on every failure up to an hour (default is 60000).
+         */
+        retryDelay?: number;
+    };
+
     /**
      * Optional settings for retrying failed notifications.
+     * Only 429, 5xx and transport errors (`ECONNRESET`, `ETIMEDOUT`, `EAI_AGAIN`...) are retried, with exponential backoff and jitter.
      */
     retrySend?: {
         /**
-         * Number of retry attempts.
+         * Number of retry attempts after the first one (default is 3).
          */
         retries: number;
 
         /**
-         * Optional delay (in milliseconds) between retries.
+         * Optional base delay (in milliseconds) of the backoff, doubled on every retry (default is 2000).
          */
         delay?: number;
+
+        /**
+         * Optional maximum delay (in milliseconds) between retries (default is 60000).
+         * A 429 response whose `Retry-After` is longer is not retried.
+         */
+        maxDelay?: number;
     };
 }
 
+/**
+ * Options of the request to the push service.
+ */
+export declare interface SendOptions {
+    /**
+     * Seconds the push service keeps the notification while the device is offline.
+     * Defaults to `Payload.expireTime` (in milliseconds) when set, otherwise to four weeks.
+     */
+    TTL?: number;
+
+    /**
+     * Priority of the notification, lower urgencies save battery.
+     */
+    urgency?: 'very-low' | 'low' | 'normal' | 'high';
+
+    /**
+     * Collapse key: a queued notification with the same topic is replaced by the new one.
+     * Up to 32 URL-safe base64 characters.
+     */
+    topic?: string;
+
+    /**
+     * Additional headers of the request.
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * Label of the metrics, such as the channel sending the notification.
+     * Defaults to the topic of `sendNotificationToTopic`.
+     */
+    label?: string;
+}
+
+/**
+ * Outcome of sending a notification to one subscription.
+ */
+export declare interface DeliveryResult {
+    /**
+     * The identifier of the subscription (its `key` field).
+     */
+    id?: string;
+
+    /**
+     * The endpoint of the subscription.
+     */
+    endpoint: string;
+
+    /**
+     * `sent` when delivered, `expired` when the push service answered 404/410 and the subscription was removed,
+     * `failed` otherwise.
+     */
+    status: 'sent' | 'failed' | 'expired';
+
+    /**
+     * The status code of the last response, missing on network errors.
+     */
+    statusCode?: number;
+
+    /**
+     * Number of requests made to the push service.
+     */
+    attempts: number;
+
+    /**
+     * The error of the last attempt, when not sent.
+     */
+    error?: string;
+}
+
+/**
+ * Outcome of sending a notification to many subscriptions.
+ */
+export declare interface DeliveryReport {
+    total: number;
+    sent: number;
+    failed: number;
+    expired: number;
+
+    /**
+     * The result of every subscription.
+     */
+    results: DeliveryResult[];
+}
+
 /**
  * Interface que representa las opciones para mostrar una notificación push en un navegador.
  * Esta interfaz está basada en las recomendaciones del artículo de web.dev sobre notificaciones push.
@@ -124,7 +265,7 @@ export declare interface Payload {
     /**
      * Tiempo de expiración de la notificación.
      * Si se establece, la notificación se elimina automáticamente después de este tiempo.
-     * El valor debe estar en milisegundos.
+     * El valor debe estar en milisegundos, y se envía como `TTL` (en segundos) al servicio push.
      *
      * @example 5000 // La notificación expirará después de 5 segundos.
      */
@@ -217,6 +358,61 @@ export interface NotificationReply {
 }
 
 
+/**
+ * The outcomes counted by the metrics: `expired` is a subscription removed after a 404/410.
+ */
+export declare type MetricName = 'successful' | 'failed' | 'retried' | 'expired';
+
+/**
+ * A counter for every outcome.
+ */
+export declare type MetricCounters = Record<MetricName, number>;
+
+/**
+ * Details of a counted outcome.
+ */
+export declare interface MetricDetails {
+    /**
+     * The status code answered by the push service, missing on network errors.
+     */
+    statusCode?: number;
+
+    /**
+     * The topic or channel the notification was sent for.
+     */
+    label?: string;
+
+    /**
+     * Milliseconds the request to the push service took, missing when no request was made.
+     */
+    latency?: number;
+}
+
+/**
+ * Snapshot of the notification metrics.
+ */
+export declare interface PushMetrics extends MetricCounters {
+    /**
+     * Responses by status code, "error" for network errors.
+     */
+    byStatus: Record<string, number>;
+
+    /**
+     * Outcomes by topic or channel.
+     */
+    byLabel: Record<string, MetricCounters>;
+
+    /**
+     * Outcomes of the last minute, hour and day.
+     */
+    windows: { minute: MetricCounters; hour: MetricCounters; day: MetricCounters };
+
+    /**
+     * Histogram of the request latencies, with the cumulative count of requests up to each bound in milliseconds.
+     */
+    latency: { buckets: Array<{ le: number; count: number }>; sum: number; count: number };
+}
+
 /**
  * Interface for managing metrics related to notifications.
  */
@@ -224,17 +420,18 @@ export interface MetricsMemory {
     /**
      * Increments a specified metric.
      *
-     * @param {('successful' | 'failed' | 'retried')} metric - The metric to increment.
+     * @param {MetricName} metric - The metric to increment.
+     * @param {MetricDetails} [details] - The status code, label and latency of the outcome.
      * @returns {Promise<void>} A promise that resolves when the metric is incremented.
      */
-    increment(metric: 'successful' | 'failed' | 'retried'): Promise<void>;
+    increment(metric: MetricName, details?: MetricDetails): Promise<void>;
 
     /**
      * Retrieves the current metrics.
      *
-     * @returns {Promise<{ successful: number; failed: number; retried: number }>} A promise that resolves with the metrics.
+     * @returns {Promise<PushMetrics>} A promise that resolves with the metrics.
      */
-    getMetrics(): Promise<{ successful: number; failed: number; retried: number }>;
+    getMetrics(): Promise<PushMetrics>;
 
     /**
      * Resets all metrics to their initial values.
@@ -281,6 +478,145 @@ export interface Memory<T> {
      * @returns {Promise<void | T>} A promise that resolves when the subscription is deleted.
      */
     delete(id: string): Promise<void | T>;
+
+    /**
+     * Counts the stored subscriptions.
+     *
+     * @returns {Promise<number>} A promise that resolves with the number of subscriptions.
+     */
+    count(): Promise<number>;
+
+    /**
+     * Retrieves the subscriptions whose field has the given value.
+     *
+     * @param {string} field - The field to compare, "id" is the ID of the subscription.
+     * @param {any} value - The value to look for.
+     * @returns {Promise<T[]>} A promise that resolves with the matching subscriptions.
+     */
+    findBy(field: string, value: any): Promise<T[]>;
+
+    /**
+     * Retrieves a page of subscriptions ordered by ID.
+     *
+     * @param {string} [cursor] - The cursor of the previous page, omitted for the first page.
+     * @param {number} [limit] - The maximum number of subscriptions in the page.
+     * @returns {Promise<MemoryPage<T>>} A promise that resolves with the page.
+     */
+    list(cursor?: string, limit?: number): Promise<MemoryPage<T>>;
+}
+
+/**
+ * A page of subscriptions returned by `Memory.list`.
+ *
+ * @template T The type of subscription being managed.
+ */
+export declare interface MemoryPage<T> {
+    /**
+     * The subscriptions of the page, with their ID in `id`.
+     */
+    items: T[];
+
+    /**
+     * The cursor of the next page, undefined on the last page.
+     */
+    cursor?: string;
+}
+
+/**
+ * Prepared statement of a SQLite driver, compatible with better-sqlite3.
+ */
+export declare interface SqliteStatement {
+    run(...params: any[]): unknown;
+    get(...params: any[]): any;
+    all(...params: any[]): any[];
+}
+
+/**
+ * SQLite database handle, compatible with better-sqlite3.
+ */
+export declare interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * The subscriptions a scheduled job sends to.
+ */
+export declare type DeliveryTarget =
+    | { type: 'all' }
+    | { type: 'one', id: string }
+    | { type: 'topic', topic: string }
+    | { type: 'user', userId: string };
+
+/**
+ * A notification scheduled with `WebPushLemur.sendAt`.
+ */
+export declare interface DeliveryJob {
+    /**
+     * The identifier of the job, used to cancel it.
+     */
+    id: string;
+
+    target: DeliveryTarget;
+    payload: Payload;
+    key: Keys;
+    options?: SendOptions;
+
+    /**
+     * The timestamp in milliseconds when the job is due.
+     */
+    runAt: number;
+
+    /**
+     * The cursor of the last page sent, so a restarted job resumes after it.
+     */
+    cursor?: string;
+
+    /**
+     * The failed runs of the job.
+     */
+    attempts?: number;
+
+    /**
+     * The error of the last failed run.
+     */
+    lastError?: string;
+}
+
+/**
+ * Generic interface for storing scheduled delivery jobs.
+ */
+export interface QueueMemory {
+    /**
+     * Saves a job, replacing the one with the same ID.
+     *
+     * @param {DeliveryJob} job - The job to save.
+     * @returns {Promise<void>} A promise that resolves when the job is saved.
+     */
+    save(job: DeliveryJob): Promise<void>;
+
+    /**
+     * Deletes a job by its ID.
+     *
+     * @param {string} id - The ID of the job.
+     * @returns {Promise<boolean>} A promise that resolves with true if the job existed.
+     */
+    delete(id: string): Promise<boolean>;
+
+    /**
+     * Retrieves the jobs due at the given time, oldest first.
+     *
+     * @param {number} now - The timestamp in milliseconds.
+     * @returns {Promise<DeliveryJob[]>} A promise that resolves with the due jobs.
+     */
+    due(now: number): Promise<DeliveryJob[]>;
+
+    /**
+     * Retrieves all stored jobs.
+     *
+     * @returns {Promise<DeliveryJob[]>} A promise that resolves with the jobs.
+     */
+    all(): Promise<DeliveryJob[]>;
 }
 
 /**
@@ -0,0 +1,93 @@
+/**
+ * Token bucket rule: the bucket holds up to `capacity` calls and refills `refillPerSecond` calls per second.
+ */
+export declare interface RateLimitRule {
+    /**
+     * Maximum number of calls in a burst.
+     */
+    capacity: number;
+
+    /**
+     * Calls added back to the bucket every second.
+     */
+    refillPerSecond: number;
+}
+
+/**
+ * Outcome of consuming a call from a bucket.
+ */
+export declare interface RateLimitResult {
+    /**
+     * Whether the call is allowed.
+     */
+    allowed: boolean;
+
+    /**
+     * Calls left in the bucket.
+     */
+    remaining: number;
+
+    /**
+     * Milliseconds until the next call is allowed, 0 when allowed.
+     * Absent when the bucket never refills.
+     */
+    retryAfter?: number;
+}
+
+/**
+ * Storage of the token buckets, so limits can be shared between processes.
+ */
+export declare interface RateLimitStore {
+    /**
+     * Consumes one call from the bucket identified by `key`.
+     *
+     * @param {string} key - The bucket key.
+     * @param {RateLimitRule} rule - The rule of the bucket.
+     * @returns {Promise<RateLimitResult>} A promise that resolves with the outcome.
+     */
+    consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+
+    /**
+     * Removes the bucket identified by `key`.
+     *
+     * @param {string} key - The bucket key.
+     * @returns {Promise<void>} A promise that resolves when the bucket is removed.
+     */
+    reset(key: string): Promise<void>;
+}
+
+/**
+ * Rate limits of a SocketServer.
+ */
+export declare interface RateLimitSettings {
+    /**
+     * Limit for all events of a socket.
+     */
+    socket?: RateLimitRule;
+
+    /**
+     * Limit for all events of a session user, across sockets.
+     */
+    user?: RateLimitRule;
+
+    /**
+     * Default limit for the events of a socket on each channel, overridden by `ChannelOptions.rateLimit`.
+     */
+    channel?: RateLimitRule;
+
+    /**
+     * Session claim identifying the user (default is "id").
+     */
+    userClaim?: string;
+
+    /**
+     * Rejected calls after which a socket is disconnected (default is 20).
+     * The count starts over when a call is rejected after the `retryAfter` of the previous rejection.
+     */
+    maxViolations?: number;
+
+    /**
+     * Storage of the buckets (default is in memory).
+     */
+    store?: RateLimitStore;
+}
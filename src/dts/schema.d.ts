@@ -0,0 +1,91 @@
+/**
+ * Result returned by a validator or by a Zod-compatible `safeParse`.
+ */
+export declare type LemurValidationResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: any };
+
+/**
+ * A schema object exposing a Zod-compatible `safeParse` method.
+ */
+export declare interface LemurSafeParseSchema<T> {
+    safeParse(data: unknown): LemurValidationResult<T>;
+}
+
+/**
+ * A validator function, either a type guard or a function returning a validation result.
+ */
+export declare type LemurValidator<T> =
+    | ((data: unknown) => data is T)
+    | ((data: unknown) => LemurValidationResult<T>);
+
+/**
+ * JSON-Schema types supported by the built-in validator.
+ */
+export declare type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Subset of JSON-Schema supported by the built-in validator.
+ * Declare schemas `as const` so the handler type can be inferred from them.
+ */
+export declare interface JsonSchema {
+    type?: JsonSchemaType;
+    properties?: { readonly [key: string]: JsonSchema };
+    required?: readonly string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: readonly any[];
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+}
+
+/**
+ * Any schema accepted by a channel.
+ */
+export declare type LemurSchema = LemurSafeParseSchema<any> | LemurValidator<any> | JsonSchema;
+
+/**
+ * A single validation failure.
+ */
+export declare interface LemurValidationIssue {
+    path: string; // Dot separated path of the invalid value, empty for the root.
+    message: string;
+}
+
+declare type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+declare type InferJsonObject<P, R> = Simplify<
+    { -readonly [K in keyof P as K extends R ? K : never]: InferJsonSchema<P[K]> } &
+    { -readonly [K in keyof P as K extends R ? never : K]?: InferJsonSchema<P[K]> }
+>;
+
+/**
+ * Type described by a JSON-Schema declared `as const`.
+ */
+export declare type InferJsonSchema<S> =
+    S extends { enum: readonly (infer E)[] } ? E :
+    S extends { type: 'string' } ? string :
+    S extends { type: 'number' | 'integer' } ? number :
+    S extends { type: 'boolean' } ? boolean :
+    S extends { type: 'null' } ? null :
+    S extends { type: 'array'; items: infer I } ? InferJsonSchema<I>[] :
+    S extends { type: 'array' } ? unknown[] :
+    S extends { type: 'object'; properties: infer P } ?
+        InferJsonObject<P, S extends { required: readonly (infer R)[] } ? R : never> :
+    S extends { type: 'object' } ? Record<string, unknown> :
+    unknown;
+
+/**
+ * Type of the data accepted by a schema.
+ */
+export declare type InferSchema<S> =
+    S extends LemurSafeParseSchema<infer T> ? T :
+    S extends (data: unknown) => data is infer T ? T :
+    S extends (data: unknown) => LemurValidationResult<infer T> ? T :
+    S extends JsonSchema ? InferJsonSchema<S> :
+    unknown;
@@ -0,0 +1,97 @@
+import type { PrometheusHistogram } from './prometheus';
+
+/**
+ * Metrics settings of a SocketServer.
+ */
+export declare interface MetricsSettings {
+    /**
+     * Path of the Prometheus route on the HTTP server created by the SocketServer (default is "/metrics").
+     */
+    path?: string;
+
+    /**
+     * Prefix of the metric names (default is "lemur").
+     */
+    prefix?: string;
+
+    /**
+     * Bounds in milliseconds of the handler latency histogram.
+     */
+    latencyBuckets?: number[];
+}
+
+/**
+ * Counters of the events of a channel.
+ */
+export declare interface ChannelStats {
+    /**
+     * Events received.
+     */
+    events: number;
+
+    /**
+     * Errors sent back by error code.
+     */
+    errors: Record<string, number>;
+
+    /**
+     * Milliseconds from the event to the end of its handler.
+     */
+    latency: PrometheusHistogram;
+}
+
+/**
+ * Snapshot of the activity of a SocketServer, on this node.
+ */
+export declare interface ServerStats {
+    /**
+     * Seconds since the server was created.
+     */
+    uptime: number;
+
+    connections: {
+        /**
+         * Sockets connected now.
+         */
+        current: number;
+
+        /**
+         * Connections accepted since the start.
+         */
+        total: number;
+
+        /**
+         * Disconnections since the start.
+         */
+        disconnections: number;
+    };
+
+    channels: Record<string, ChannelStats>;
+
+    rooms: {
+        /**
+         * Rooms with at least one member.
+         */
+        count: number;
+
+        /**
+         * Memberships of every room.
+         */
+        members: number;
+
+        /**
+         * Members of the largest room.
+         */
+        largest: number;
+
+        /**
+         * Members by room.
+         */
+        sizes: Record<string, number>;
+    };
+
+    /**
+     * Rejected credentials by reason: `invalid_api_key`, `invalid_token`, `refresh_rejected` and `session_expired`.
+     */
+    authFailures: Record<string, number>;
+}
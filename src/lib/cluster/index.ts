@@ -0,0 +1,148 @@
+import { Adapter, BroadcastOptions } from 'socket.io-adapter';
+import type { ClusterMember, ClusterSettings, LemurClusterState } from '../../dts/cluster';
+
+/**
+ * A class for storing room membership in memory.
+ * Used by a SocketServer without cluster state, and shared by the nodes of an InProcessCluster.
+ */
+export class ClusterStateLocalMemory<S = any> implements LemurClusterState<S> {
+    private roomMembers: Map<string, Map<string, ClusterMember<S>>> = new Map(); // room -> socket id -> member
+    private socketRooms: Map<string, Set<string>> = new Map(); // socket id -> rooms
+    private activity: Map<string, number> = new Map(); // room -> timestamp of the last activity
+
+    /**
+     * Adds a socket to a room.
+     *
+     * @param {string} room - The name of the room.
+     * @param {ClusterMember<S>} member - The socket joining.
+     * @returns {Promise<number>} A promise that resolves with the members of the room.
+     */
+    async join(room: string, member: ClusterMember<S>): Promise<number> {
+        if (!this.roomMembers.has(room)) this.roomMembers.set(room, new Map());
+        if (!this.socketRooms.has(member.id)) this.socketRooms.set(member.id, new Set());
+
+        this.roomMembers.get(room)!.set(member.id, member);
+        this.socketRooms.get(member.id)!.add(room);
+        return this.roomMembers.get(room)!.size;
+    }
+
+    /**
+     * Removes a socket from a room.
+     *
+     * @param {string} room - The name of the room.
+     * @param {string} id - The socket id.
+     * @returns {Promise<number>} A promise that resolves with the members left in the room.
+     */
+    async leave(room: string, id: string): Promise<number> {
+        const members = this.roomMembers.get(room);
+        members?.delete(id);
+        if (members && !members.size) {
+            this.roomMembers.delete(room);
+            this.activity.delete(room);
+        }
+
+        this.socketRooms.get(id)?.delete(room);
+        if (!this.socketRooms.get(id)?.size) this.socketRooms.delete(id);
+        return members?.size || 0;
+    }
+
+    /**
+     * Retrieves the members of a room.
+     *
+     * @param {string} room - The name of the room.
+     * @returns {Promise<Array<ClusterMember<S>>>} A promise that resolves with the members.
+     */
+    async members(room: string): Promise<Array<ClusterMember<S>>> {
+        return Array.from(this.roomMembers.get(room)?.values() || []);
+    }
+
+    /**
+     * Retrieves the rooms a socket joined.
+     *
+     * @param {string} id - The socket id.
+     * @returns {Promise<string[]>} A promise that resolves with the names of the rooms.
+     */
+    async rooms(id: string): Promise<string[]> {
+        return Array.from(this.socketRooms.get(id) || []);
+    }
+
+    /**
+     * Records activity in a room with members.
+     *
+     * @param {string} room - The name of the room.
+     * @param {number} at - The timestamp in milliseconds of the activity.
+     * @returns {Promise<void>} A promise that resolves when the activity is recorded.
+     */
+    async touch(room: string, at: number): Promise<void> {
+        if (this.roomMembers.has(room)) this.activity.set(room, Math.max(at, this.activity.get(room) || 0));
+    }
+
+    /**
+     * Retrieves the last activity in a room.
+     *
+     * @param {string} room - The name of the room.
+     * @returns {Promise<number | undefined>} A promise that resolves with the timestamp in milliseconds, if any.
+     */
+    async activeAt(room: string): Promise<number | undefined> {
+        return this.activity.get(room);
+    }
+}
+
+/**
+ * Simulates a cluster of SocketServer nodes in one process, for tests and local development.
+ * The nodes share their room membership, and their broadcasts reach the sockets of every node.
+ *
+ * @example
+ * const cluster = new InProcessCluster();
+ * const a = new SocketServer({ cluster: cluster.node('a') });
+ * const b = new SocketServer({ cluster: cluster.node('b') });
+ */
+export class InProcessCluster {
+    private state: ClusterStateLocalMemory = new ClusterStateLocalMemory();
+    private adapters: Map<string, Set<Adapter>> = new Map(); // namespace -> adapters of the nodes
+
+    /**
+     * Creates the cluster settings of a new node.
+     *
+     * @param {string} nodeId - Identifier of the node.
+     * @returns {ClusterSettings} The settings to pass as `ServerSettings.cluster`.
+     */
+    node(nodeId?: string): ClusterSettings {
+        const adapters = this.adapters;
+
+        class InProcessAdapter extends Adapter {
+            constructor(nsp: any) {
+                super(nsp);
+                if (!adapters.has(nsp.name)) adapters.set(nsp.name, new Set());
+                adapters.get(nsp.name)!.add(this);
+            }
+
+            broadcast(packet: any, opts: BroadcastOptions): void {
+                super.broadcast(packet, opts);
+                if (opts.flags?.local) return;
+                this.peers().forEach(peer => peer.deliver(packet, opts));
+            }
+
+            serverCount(): Promise<number> {
+                return Promise.resolve(adapters.get(this.nsp.name)?.size || 1);
+            }
+
+            close(): void {
+                adapters.get(this.nsp.name)?.delete(this);
+            }
+
+            /**
+             * Sends a broadcast of another node to the sockets of this node.
+             */
+            deliver(packet: any, opts: BroadcastOptions): void {
+                super.broadcast(packet, opts);
+            }
+
+            private peers(): InProcessAdapter[] {
+                return Array.from(adapters.get(this.nsp.name) || []).filter(adapter => adapter !== this) as InProcessAdapter[];
+            }
+        }
+
+        return { nodeId, state: this.state, adapter: InProcessAdapter };
+    }
+}
@@ -6,20 +6,56 @@
 type RoomData<T> = {
     item: T; // The item for the room (could be a set of sockets, data, etc.)
     timestamp: number; // The timestamp in milliseconds when the room was last updated.
+    ttl: number; // The time to live of the room in milliseconds.
+};
+
+/**
+ * Why a room left the map: its TTL elapsed, or it was the least recently used one when `maxSize` was reached.
+ */
+export type ExpireReason = 'expired' | 'evicted';
+
+/**
+ * Listener called for every room removed by the map itself.
+ * Errors thrown by a listener are ignored, listeners handle their own failures.
+ *
+ * @template T The type of the item stored in the room.
+ */
+export type ExpireListener<T> = (key: string, item: T, reason: ExpireReason) => void;
+
+/**
+ * Options of an ExpiringMap.
+ *
+ * @template T The type of the item stored in the room.
+ */
+export type ExpiringMapOptions<T> = {
+    ttl?: number; // Default time to live in milliseconds (default is 30 minutes).
+    sweepInterval?: number; // Milliseconds between sweeps (default is the TTL, at most one minute).
+    maxSize?: number; // Maximum number of rooms, the least recently used one is evicted beyond it.
+    clock?: () => number; // Returns the current time in milliseconds (default is Date.now).
+    onExpire?: ExpireListener<T>; // Listener registered at construction.
 };
 
 /**
  * Class to manage a map of rooms that expire after a period of inactivity.
  * This class is generic and can handle any type of item within the room.
  *
+ * A single sweep interval runs while the map holds rooms, and expired rooms are also
+ * dropped when they are read, so a room is never returned after its TTL.
+ *
  * @template T The type of the item stored in the room.
  * @example
  * // Set the expiration time to 5 minutes (300,000 milliseconds).
- * const rooms = new ExpiringMap<Set<LemurSocket<Session>>>(30 * 60 * 1000);
+ * const rooms = new ExpiringMap<Set<LemurSocket<Session>>>({ ttl: 5 * 60 * 1000, maxSize: 1000 });
+ *
+ * // Get notified when a room expires or is evicted.
+ * rooms.onExpire((key, sockets, reason) => console.log(`Room ${key} ${reason}`));
  *
  * // Add a room with its associated set of sockets (example usage with sockets).
  * rooms.set("room1", new Set<LemurSocket<Session>>());
  *
+ * // Add a room with its own time to live.
+ * rooms.set("room2", new Set<LemurSocket<Session>>(), 60 * 1000);
+ *
  * // Access a room (this will update the timestamp).
  * const room1 = rooms.get("room1");
  * if (room1) {
@@ -33,30 +69,64 @@ type RoomData<T> = {
  *
  * // Manually delete a room.
  * rooms.delete("room1");
+ *
+ * // Stop the sweep interval when the map is no longer needed.
+ * rooms.dispose();
  */
 export class ExpiringMap<T> {
-    private map: Map<string, RoomData<T>>; // Map to store the rooms by their keys.
-    private timeout: number; // The expiration time in milliseconds.
+    private map: Map<string, RoomData<T>>; // Map to store the rooms by their keys, least recently used first.
+    private timeout: number; // The default expiration time in milliseconds.
+    private sweepInterval: number; // The time between sweeps in milliseconds.
+    private maxSize?: number; // The maximum number of rooms.
+    private clock: () => number; // Returns the current time in milliseconds.
+    private listeners: Set<ExpireListener<T>>; // Listeners for removed rooms.
+    private timer?: ReturnType<typeof setInterval>; // The sweep interval, while rooms remain.
 
     /**
      * Constructor for the ExpiringMap class.
      *
-     * @param {number} timeout - The expiration time in milliseconds.
+     * @param {number | ExpiringMapOptions<T>} options - The expiration time in milliseconds, or the map options.
      */
-    constructor(timeout?: number) {
+    constructor(options?: number | ExpiringMapOptions<T>) {
+        const opts: ExpiringMapOptions<T> = typeof options === 'number' ? { ttl: options } : (options || {});
+
         this.map = new Map();
-        this.timeout = timeout || (30 * 60 * 1000);
+        this.timeout = opts.ttl || (30 * 60 * 1000);
+        this.sweepInterval = opts.sweepInterval || Math.min(this.timeout, 60 * 1000);
+        this.maxSize = opts.maxSize;
+        this.clock = opts.clock || Date.now;
+        this.listeners = new Set();
+        if (opts.onExpire) this.listeners.add(opts.onExpire);
     }
 
     /**
-     * Adds a new room to the map with the current timestamp.
+     * The number of rooms in the map, including expired rooms not swept yet.
+     *
+     * @returns {number}
+     */
+    get size(): number {
+        return this.map.size;
+    }
+
+    /**
+     * Adds a room to the map with the current timestamp, replacing any room with the same key.
+     * When `maxSize` is exceeded the least recently used room is evicted.
      *
      * @param {string} key - The key (room identifier) for the room.
      * @param {T} item - The item to associate with the room (e.g., a set of sockets).
+     * @param {number} ttl - Optional time to live of this room in milliseconds.
      */
-    set(key: string, item: T): void {
-        const timestamp = Date.now(); // Get the current timestamp.
-        this.map.set(key, { item, timestamp });
+    set(key: string, item: T, ttl: number = this.timeout): void {
+        this.map.delete(key); // Re-insert so the room becomes the most recently used.
+        this.map.set(key, { item, timestamp: this.clock(), ttl });
+
+        if (this.maxSize !== undefined) {
+            while (this.map.size > this.maxSize) {
+                const [oldest, room] = this.map.entries().next().value as [string, RoomData<T>];
+                this.map.delete(oldest);
+                this.notify(oldest, room.item, 'evicted');
+            }
+        }
         this.startCleanup(); // Start the cleanup process after adding a room.
     }
 
@@ -67,22 +137,36 @@ export class ExpiringMap<T> {
      * @returns {T | undefined} The item for the room, or undefined if the room doesn't exist.
      */
     get(key: string): T | undefined {
-        const room = this.map.get(key);
+        const room = this.live(key);
         if (room) {
-            room.timestamp = Date.now(); // Update the timestamp when accessing the room.
+            room.timestamp = this.clock(); // Update the timestamp when accessing the room.
+            this.map.delete(key);
+            this.map.set(key, room);
             return room.item;
         }
         return undefined;
     }
 
     /**
-     * Deletes a room from the map.
+     * Retrieves the item for a room without updating the room's timestamp.
+     *
+     * @param {string} key - The key (room identifier) of the room to retrieve.
+     * @returns {T | undefined} The item for the room, or undefined if the room doesn't exist.
+     */
+    peek(key: string): T | undefined {
+        return this.live(key)?.item;
+    }
+
+    /**
+     * Deletes a room from the map. Listeners are not called.
      *
      * @param {string} key - The key (room identifier) of the room to delete.
      * @returns {boolean} True if the room was deleted, false otherwise.
      */
     delete(key: string): boolean {
-        return this.map.delete(key);
+        const deleted = this.map.delete(key);
+        if (!this.map.size) this.stopCleanup();
+        return deleted;
     }
 
     /**
@@ -92,22 +176,90 @@ export class ExpiringMap<T> {
      * @returns {boolean} True if the room exists, false otherwise.
      */
     has(key: string): boolean {
-        return this.map.has(key);
+        return this.live(key) !== undefined;
     }
 
     /**
-     * Starts the cleanup process to remove expired rooms after the specified timeout.
-     * This will check for expired rooms periodically and delete them from the map.
+     * Registers a listener called for every room that expires or is evicted.
+     *
+     * @param {ExpireListener<T>} listener - The listener.
+     * @returns {() => void} A function that removes the listener.
      */
-    private startCleanup(): void {
-        setTimeout(() => {
-            const now = Date.now();
-            for (const [key, room] of this.map.entries()) {
-                if (now - room.timestamp > this.timeout) {
-                    this.map.delete(key); // Delete rooms that have expired.
-                }
+    onExpire(listener: ExpireListener<T>): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Removes every room expired at the current time, calling the listeners for each one.
+     * Runs on the sweep interval, and can be called directly.
+     */
+    sweep(): void {
+        const now = this.clock();
+        for (const [key, room] of this.map.entries()) {
+            if (now - room.timestamp >= room.ttl) {
+                this.map.delete(key); // Delete rooms that have expired.
+                this.notify(key, room.item, 'expired');
             }
-        }, this.timeout);
+        }
+        if (!this.map.size) this.stopCleanup();
+    }
+
+    /**
+     * Removes every room without calling the listeners.
+     */
+    clear(): void {
+        this.map.clear();
+        this.stopCleanup();
+    }
+
+    /**
+     * Removes every room and listener and stops the sweep interval.
+     */
+    dispose(): void {
+        this.clear();
+        this.listeners.clear();
+    }
+
+    /**
+     * Returns a room that has not expired, dropping it first if it has.
+     *
+     * @param {string} key - The key (room identifier) of the room.
+     * @returns {RoomData<T> | undefined}
+     */
+    private live(key: string): RoomData<T> | undefined {
+        const room = this.map.get(key);
+        if (room && this.clock() - room.timestamp >= room.ttl) {
+            this.map.delete(key);
+            this.notify(key, room.item, 'expired');
+            if (!this.map.size) this.stopCleanup();
+            return undefined;
+        }
+        return room;
+    }
+
+    private notify(key: string, item: T, reason: ExpireReason): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(key, item, reason);
+            } catch {
+                // A failing listener must not stop the sweep or the other listeners
+            }
+        });
+    }
+
+    /**
+     * Starts the sweep interval if it is not running.
+     */
+    private startCleanup(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.sweep(), this.sweepInterval);
+        this.timer.unref?.(); // Do not keep the process alive for the cleanup.
+    }
+
+    private stopCleanup(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
     }
 
     // Methods for inspection or debugging:
@@ -138,4 +290,4 @@ export class ExpiringMap<T> {
     entries(): IterableIterator<[string, RoomData<T>]> {
         return this.map.entries();
     }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
-import type { LemurCustomSimpleEvent, LemurCustomWebPushEvent, LemurEvent, LemurSimpleEvent, LemurSimpleWebPushEvent } from "../../dts/browser";
+import type { ChannelOptions, LemurCustomSimpleEvent, LemurCustomWebPushEvent, LemurEvent, LemurSimpleEvent, LemurSimpleWebPushEvent } from "../../dts/browser";
+import type { LemurSafeParseSchema } from "../../dts/schema";
 import { WebPushLemur } from "../web-push-lemur";
 
 export function isLemurCustomSimpleEvent<T, S>(
@@ -41,3 +42,21 @@ export function isWebPushLemur(
         && typeof event?.getSubscriptions === 'function'
         && typeof event?.getMetrics === 'function';
 }
+
+export function isSafeParseSchema(
+    schema?: any
+): schema is LemurSafeParseSchema<any> {
+    return typeof schema === 'object' && schema !== null && typeof schema.safeParse === 'function';
+}
+
+export function isChannelOptions(
+    options?: any
+): options is ChannelOptions {
+    return typeof options === 'object' && options !== null && !isWebPushLemur(options);
+}
+
+export function isRecord(
+    value: unknown
+): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
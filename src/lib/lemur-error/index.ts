@@ -0,0 +1,86 @@
+import type { LemurErrorCode, LemurErrorEnvelope } from "../../dts/browser";
+
+/**
+ * Codes that callers may retry by default.
+ */
+const RETRYABLE_CODES: Array<LemurErrorCode> = ['rate_limited', 'timeout', 'in_progress'];
+
+/**
+ * Class LemurError.
+ * @description A typed error sent to clients on `${channel}:error`, serialized as a `LemurErrorEnvelope`.
+ */
+export class LemurError extends Error {
+    public readonly code: LemurErrorCode;
+    public readonly channel?: string;
+    public readonly requestId?: string;
+    public readonly details?: any;
+    public readonly retryable: boolean;
+
+    /**
+     * Creates an instance of LemurError.
+     * @param code The error code clients branch on.
+     * @param message A human readable description.
+     * @param opts (Optional) The channel, request id, details and retryable flag of the error.
+     */
+    constructor(
+        code: LemurErrorCode,
+        message: string,
+        opts: Partial<Omit<LemurErrorEnvelope, 'code' | 'message'>> = {}
+    ) {
+        super(message);
+        this.name = 'LemurError';
+        this.code = code;
+        this.channel = opts.channel;
+        this.requestId = opts.requestId;
+        this.details = opts.details;
+        this.retryable = opts.retryable ?? RETRYABLE_CODES.includes(code);
+    }
+
+    /**
+     * Normalizes anything thrown or reported by a handler into a LemurError.
+     * @param error The string, Error, envelope or LemurError to normalize.
+     * @param code The code used when the error does not carry one.
+     * @returns The LemurError.
+     */
+    static from(error: unknown, code: LemurErrorCode = 'handler_exception'): LemurError {
+        if (error instanceof LemurError) return error;
+        if (isLemurErrorEnvelope(error)) return new LemurError(error.code, error.message, error);
+        if (error instanceof Error) return new LemurError(code, error.message);
+        if (typeof error === 'string') return new LemurError(code, error);
+        return new LemurError(code, 'Unexpected error.', { details: error });
+    }
+
+    /**
+     * Returns a copy of the error bound to a channel and request.
+     * @param channel The channel the error belongs to.
+     * @param requestId (Optional) The id of the request that failed.
+     * @returns The LemurError.
+     */
+    withContext(channel: string, requestId?: string): LemurError {
+        return new LemurError(this.code, this.message, {
+            channel: this.channel ?? channel,
+            requestId: this.requestId ?? requestId,
+            details: this.details,
+            retryable: this.retryable
+        });
+    }
+
+    /**
+     * Serializes the error as the envelope emitted to clients.
+     * @returns The envelope.
+     */
+    toJSON(): LemurErrorEnvelope {
+        const envelope: LemurErrorEnvelope = { code: this.code, message: this.message, retryable: this.retryable };
+        if (this.channel !== undefined) envelope.channel = this.channel;
+        if (this.requestId !== undefined) envelope.requestId = this.requestId;
+        if (this.details !== undefined) envelope.details = this.details;
+        return envelope;
+    }
+}
+
+export function isLemurErrorEnvelope(error?: any): error is LemurErrorEnvelope {
+    return typeof error === 'object' && error !== null
+        && typeof error.code === 'string'
+        && typeof error.message === 'string'
+        && typeof error.retryable === 'boolean';
+}
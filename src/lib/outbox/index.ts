@@ -0,0 +1,137 @@
+import type { OutboxItem, OutboxStorage } from "../../dts/outbox";
+
+/**
+ * A class for keeping the outbox in memory, lost when the page reloads.
+ */
+export class OutboxLocalMemory implements OutboxStorage {
+    private items: Map<string, OutboxItem> = new Map();
+
+    async all(): Promise<OutboxItem[]> {
+        return Array.from(this.items.values());
+    }
+
+    async save(item: OutboxItem): Promise<void> {
+        this.items.set(item.id, item);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.items.delete(id);
+    }
+}
+
+/**
+ * A class for keeping the outbox in `localStorage`, as a JSON array under one key.
+ *
+ * @example
+ * const client = new SocketClient(url, { token, outbox: { storage: new OutboxLocalStorage() } });
+ */
+export class OutboxLocalStorage implements OutboxStorage {
+    /**
+     * Creates an instance of OutboxLocalStorage.
+     *
+     * @param {string} key - The key of the array (default is "socket-lemur:outbox").
+     * @param {Storage} storage - The Web Storage to use (default is `localStorage`).
+     */
+    constructor(
+        private readonly key: string = 'socket-lemur:outbox',
+        private readonly storage: Storage = globalThis.localStorage
+    ) { }
+
+    async all(): Promise<OutboxItem[]> {
+        return this.read();
+    }
+
+    async save(item: OutboxItem): Promise<void> {
+        this.write([...this.read().filter(saved => saved.id !== item.id), item]);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.write(this.read().filter(item => item.id !== id));
+    }
+
+    private read(): OutboxItem[] {
+        try {
+            const items = JSON.parse(this.storage.getItem(this.key) || '[]');
+            return Array.isArray(items) ? items : [];
+        } catch {
+            return []; // A corrupted value is an empty outbox.
+        }
+    }
+
+    private write(items: OutboxItem[]): void {
+        if (items.length) this.storage.setItem(this.key, JSON.stringify(items));
+        else this.storage.removeItem(this.key);
+    }
+}
+
+/**
+ * A class for keeping the outbox in IndexedDB, for large payloads or many queued emits.
+ * Items are stored under an auto-incremented key, so they come back in the order they were saved.
+ *
+ * @example
+ * const client = new SocketClient(url, { token, outbox: { storage: new OutboxIndexedDB() } });
+ */
+export class OutboxIndexedDB implements OutboxStorage {
+    private opening?: Promise<IDBDatabase>;
+
+    /**
+     * Creates an instance of OutboxIndexedDB.
+     *
+     * @param {string} name - The name of the database (default is "socket-lemur").
+     * @param {string} store - The name of the object store (default is "outbox").
+     * @param {IDBFactory} factory - The IndexedDB factory (default is `indexedDB`).
+     */
+    constructor(
+        private readonly name: string = 'socket-lemur',
+        private readonly store: string = 'outbox',
+        private readonly factory: IDBFactory = globalThis.indexedDB
+    ) { }
+
+    async all(): Promise<OutboxItem[]> {
+        return this.request('readonly', store => store.getAll());
+    }
+
+    async save(item: OutboxItem): Promise<void> {
+        await this.delete(item.id);
+        await this.request('readwrite', store => store.add(item));
+    }
+
+    async delete(id: string): Promise<void> {
+        const key = await this.request('readonly', store => store.index('id').getKey(id));
+        if (key !== undefined) await this.request('readwrite', store => store.delete(key));
+    }
+
+    /**
+     * Runs a request on the object store in its own transaction.
+     *
+     * @param {IDBTransactionMode} mode - The mode of the transaction.
+     * @param {(store: IDBObjectStore) => IDBRequest<R>} build - Builds the request.
+     * @returns {Promise<R>} A promise that resolves with the result of the request.
+     */
+    private async request<R>(mode: IDBTransactionMode, build: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+        const db = await this.open();
+        return new Promise<R>((resolve, reject) => {
+            const request = build(db.transaction(this.store, mode).objectStore(this.store));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.opening) {
+            this.opening = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = this.factory.open(this.name, 1);
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(this.store, { autoIncrement: true });
+                    store.createIndex('id', 'id', { unique: true });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.opening = undefined; // Try again on the next call.
+                    reject(request.error);
+                };
+            });
+        }
+        return this.opening;
+    }
+}
@@ -0,0 +1,60 @@
+import type { PrometheusHistogram, PrometheusMetric, PrometheusSample } from "../../dts/prometheus";
+
+/**
+ * Formats metrics in the Prometheus text exposition format.
+ *
+ * @param {PrometheusMetric[]} metrics - The metric families.
+ * @returns {string} The metrics, one sample per line.
+ * @example
+ * toPrometheus([{ name: "lemur_connections", help: "Open connections.", type: "gauge", samples: [{ value: 3 }] }]);
+ * // # HELP lemur_connections Open connections.
+ * // # TYPE lemur_connections gauge
+ * // lemur_connections 3
+ */
+export function toPrometheus(metrics: PrometheusMetric[]): string {
+    const lines: string[] = [];
+    for (const metric of metrics) {
+        lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+        for (const sample of metric.samples) {
+            lines.push(`${metric.name}${sample.suffix || ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+    }
+    return lines.length ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Builds the `_bucket`, `_sum` and `_count` samples of a histogram.
+ *
+ * @param {PrometheusHistogram} histogram - The histogram, with cumulative bucket counts.
+ * @param {Record<string, string | number>} [labels] - Labels added to every sample.
+ * @returns {PrometheusSample[]} The samples, ending with the `+Inf` bucket.
+ */
+export function histogramSamples(histogram: PrometheusHistogram, labels: Record<string, string | number> = {}): PrometheusSample[] {
+    return [
+        ...histogram.buckets.map(({ le, count }) => ({ suffix: '_bucket', labels: { ...labels, le }, value: count })),
+        { suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: histogram.count },
+        { suffix: '_sum', labels, value: histogram.sum },
+        { suffix: '_count', labels, value: histogram.count },
+    ];
+}
+
+function formatLabels(labels?: Record<string, string | number>): string {
+    const entries = Object.entries(labels || {});
+    if (!entries.length) return '';
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabel(String(value))}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,81 @@
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from "../../dts/rate-limit";
+
+/**
+ * Type definition for a token bucket.
+ */
+type Bucket = {
+    tokens: number; // Calls left in the bucket.
+    updatedAt: number; // The timestamp in milliseconds of the last refill.
+    rule: RateLimitRule; // The rule the bucket was last consumed with.
+};
+
+/**
+ * A class for storing token buckets in memory.
+ * Buckets that refilled completely are pruned at most once per `pruneInterval`.
+ */
+export class RateLimitLocalMemory implements RateLimitStore {
+    private buckets: Map<string, Bucket> = new Map();
+    private prunedAt: number;
+
+    /**
+     * Creates an instance of RateLimitLocalMemory.
+     *
+     * @param {() => number} now - Clock returning the current time in milliseconds.
+     * @param {number} pruneInterval - Milliseconds between prunes of full buckets.
+     */
+    constructor(
+        private readonly now: () => number = Date.now,
+        private readonly pruneInterval: number = 60 * 1000
+    ) {
+        this.prunedAt = this.now();
+    }
+
+    /**
+     * Consumes one call from the bucket identified by `key`, refilling it first.
+     *
+     * @param {string} key - The bucket key.
+     * @param {RateLimitRule} rule - The rule of the bucket.
+     * @returns {Promise<RateLimitResult>} A promise that resolves with the outcome.
+     */
+    async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+        const now = this.now();
+        this.prune(now);
+
+        const bucket = this.buckets.get(key) || { tokens: rule.capacity, updatedAt: now, rule };
+        bucket.tokens = this.refill(bucket, rule, now);
+        bucket.updatedAt = now;
+        bucket.rule = rule;
+        this.buckets.set(key, bucket);
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+        }
+        if (rule.refillPerSecond <= 0) return { allowed: false, remaining: 0 };
+        const retryAfter = Math.ceil(((1 - bucket.tokens) / rule.refillPerSecond) * 1000);
+        return { allowed: false, remaining: 0, retryAfter };
+    }
+
+    /**
+     * Removes the bucket identified by `key`.
+     *
+     * @param {string} key - The bucket key.
+     * @returns {Promise<void>} A promise that resolves when the bucket is removed.
+     */
+    async reset(key: string): Promise<void> {
+        this.buckets.delete(key);
+    }
+
+    private refill(bucket: Bucket, rule: RateLimitRule, now: number): number {
+        const elapsed = (now - bucket.updatedAt) / 1000;
+        return Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond);
+    }
+
+    private prune(now: number): void {
+        if (now - this.prunedAt < this.pruneInterval) return;
+        this.prunedAt = now;
+        for (const [key, bucket] of this.buckets.entries()) {
+            if (this.refill(bucket, bucket.rule, now) >= bucket.rule.capacity) this.buckets.delete(key);
+        }
+    }
+}
@@ -0,0 +1,117 @@
+import type { JsonSchema, LemurSchema, LemurValidationIssue, LemurValidationResult } from "../../dts/schema";
+import { isSafeParseSchema } from "../guard";
+
+/**
+ * Validate data against a channel schema.
+ * Accepts a Zod-compatible schema, a validator function or a JSON-Schema object.
+ *
+ * @param {LemurSchema} schema - The schema to validate against.
+ * @param {unknown} data - The data to validate.
+ * @returns {LemurValidationResult<T>} The parsed data, or the list of issues found.
+ */
+export function validateSchema<T>(schema: LemurSchema, data: unknown): LemurValidationResult<T> {
+    if (isSafeParseSchema(schema)) {
+        const result = schema.safeParse(data);
+        return result.success ? result : { success: false, error: toIssues(result.error) };
+    }
+
+    if (typeof schema === 'function') {
+        const result = schema(data);
+        if (typeof result === 'boolean') {
+            return result ? { success: true, data: data as T } : { success: false, error: [{ path: '', message: 'Invalid value' }] };
+        }
+        return result.success ? result : { success: false, error: toIssues(result.error) };
+    }
+
+    const issues: LemurValidationIssue[] = [];
+    validateJsonSchema(schema, data, '', issues);
+    return issues.length ? { success: false, error: issues } : { success: true, data: data as T };
+}
+
+/**
+ * Normalize the error of a validator into a list of issues.
+ *
+ * @param {any} error - The error returned by the validator (Zod error, issue list or message).
+ * @returns {LemurValidationIssue[]}
+ */
+function toIssues(error: any): LemurValidationIssue[] {
+    const list: any[] = Array.isArray(error) ? error : Array.isArray(error?.issues) ? error.issues : [error];
+    return list.map(issue => ({
+        path: Array.isArray(issue?.path) ? issue.path.join('.') : (issue?.path ?? ''),
+        message: typeof issue === 'string' ? issue : (issue?.message ?? 'Invalid value')
+    }));
+}
+
+/**
+ * Check a value against a JSON-Schema, collecting every issue found.
+ *
+ * @param {JsonSchema} schema - The JSON-Schema.
+ * @param {unknown} value - The value to check.
+ * @param {string} path - The path of the value inside the validated data.
+ * @param {LemurValidationIssue[]} issues - The list collecting the issues.
+ */
+function validateJsonSchema(schema: JsonSchema, value: unknown, path: string, issues: LemurValidationIssue[]): void {
+    const fail = (message: string) => issues.push({ path, message });
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        return void fail(`must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return void fail('must be a string');
+            if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must have at least ${schema.minLength} characters`);
+            if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must have at most ${schema.maxLength} characters`);
+            if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) fail(`must match ${schema.pattern}`);
+            return;
+
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || Number.isNaN(value)) return void fail('must be a number');
+            if (schema.type === 'integer' && !Number.isInteger(value)) fail('must be an integer');
+            if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+            if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+            return;
+
+        case 'boolean':
+            if (typeof value !== 'boolean') fail('must be a boolean');
+            return;
+
+        case 'null':
+            if (value !== null) fail('must be null');
+            return;
+
+        case 'array':
+            if (!Array.isArray(value)) return void fail('must be an array');
+            if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+            if (schema.items) value.forEach((item, index) => validateJsonSchema(schema.items!, item, join(path, `${index}`), issues));
+            return;
+
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return void fail('must be an object');
+            const record = value as Record<string, unknown>;
+            const properties = schema.properties || {};
+
+            for (const key of schema.required || []) {
+                if (!hasOwn(record, key) || record[key] === undefined) issues.push({ path: join(path, key), message: 'is required' });
+            }
+            for (const [key, item] of Object.entries(record)) {
+                if (hasOwn(properties, key)) {
+                    if (item !== undefined) validateJsonSchema(properties[key], item, join(path, key), issues);
+                } else if (schema.additionalProperties === false) {
+                    issues.push({ path: join(path, key), message: 'is not allowed' });
+                }
+            }
+            return;
+        }
+    }
+}
+
+function hasOwn(record: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,195 @@
+import type { ChannelStats, ServerStats } from "../../dts/stats";
+import type { PrometheusMetric } from "../../dts/prometheus";
+import { histogramSamples } from "../prometheus";
+
+const LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Type definition for the counters of a channel, with per-bucket (not cumulative) latency counts.
+ */
+type ChannelCounters = {
+    events: number;
+    errors: Record<string, number>;
+    latency: { counts: number[]; sum: number; count: number };
+};
+
+/**
+ * A class counting the connections, channel events, errors and auth failures of a SocketServer.
+ */
+export class StatsRecorder {
+    private startedAt: number;
+    private connections = { current: 0, total: 0, disconnections: 0 };
+    private channels: Map<string, ChannelCounters> = new Map();
+    private authFailures: Record<string, number> = {};
+
+    /**
+     * Creates an instance of StatsRecorder.
+     *
+     * @param {number[]} latencyBuckets - Bounds in milliseconds of the handler latency histogram.
+     * @param {() => number} now - Clock returning the current time in milliseconds.
+     */
+    constructor(
+        private readonly latencyBuckets: number[] = LATENCY_BUCKETS,
+        private readonly now: () => number = Date.now
+    ) {
+        this.startedAt = this.now();
+    }
+
+    /**
+     * Records an accepted connection.
+     */
+    connected(): void {
+        this.connections.current++;
+        this.connections.total++;
+    }
+
+    /**
+     * Records a disconnection.
+     */
+    disconnected(): void {
+        this.connections.current = Math.max(0, this.connections.current - 1);
+        this.connections.disconnections++;
+    }
+
+    /**
+     * Records an event received on a channel.
+     *
+     * @param {string} channel - The name of the channel.
+     */
+    event(channel: string): void {
+        this.counters(channel).events++;
+    }
+
+    /**
+     * Records an error sent back on a channel.
+     *
+     * @param {string} channel - The name of the channel.
+     * @param {string} code - The code of the LemurError.
+     */
+    error(channel: string, code: string): void {
+        const errors = this.counters(channel).errors;
+        errors[code] = (errors[code] || 0) + 1;
+    }
+
+    /**
+     * Records the time a handler took.
+     *
+     * @param {string} channel - The name of the channel.
+     * @param {number} latency - Milliseconds from the event to the end of its handler.
+     */
+    latency(channel: string, latency: number): void {
+        const histogram = this.counters(channel).latency;
+        const bucket = this.latencyBuckets.findIndex(bound => latency <= bound);
+        histogram.counts[bucket === -1 ? this.latencyBuckets.length : bucket]++;
+        histogram.sum += latency;
+        histogram.count++;
+    }
+
+    /**
+     * Records rejected credentials.
+     *
+     * @param {string} reason - Why they were rejected.
+     */
+    authFailure(reason: string): void {
+        this.authFailures[reason] = (this.authFailures[reason] || 0) + 1;
+    }
+
+    /**
+     * Seconds since the recorder was created.
+     *
+     * @returns {number} The uptime.
+     */
+    uptime(): number {
+        return Math.floor((this.now() - this.startedAt) / 1000);
+    }
+
+    /**
+     * Builds a snapshot of the counters.
+     *
+     * @param {Record<string, number>} sizes - Members by room, on this node.
+     * @returns {ServerStats} The stats.
+     */
+    snapshot(sizes: Record<string, number>): ServerStats {
+        const channels: Record<string, ChannelStats> = {};
+        this.channels.forEach((counters, name) => {
+            let cumulative = 0;
+            channels[name] = {
+                events: counters.events,
+                errors: { ...counters.errors },
+                latency: {
+                    buckets: this.latencyBuckets.map((le, index) => ({ le, count: cumulative += counters.latency.counts[index] })),
+                    sum: counters.latency.sum,
+                    count: counters.latency.count,
+                },
+            };
+        });
+
+        const counts = Object.values(sizes);
+        return {
+            uptime: this.uptime(),
+            connections: { ...this.connections },
+            channels,
+            rooms: {
+                count: counts.length,
+                members: counts.reduce((total, size) => total + size, 0),
+                largest: counts.reduce((largest, size) => Math.max(largest, size), 0),
+                sizes,
+            },
+            authFailures: { ...this.authFailures },
+        };
+    }
+
+    /**
+     * Describes a snapshot as Prometheus metric families.
+     *
+     * @param {ServerStats} stats - The snapshot.
+     * @param {string} prefix - Prefix of the metric names.
+     * @returns {PrometheusMetric[]} The metric families.
+     */
+    static metrics(stats: ServerStats, prefix: string = 'lemur'): PrometheusMetric[] {
+        const channels = Object.entries(stats.channels);
+        return [
+            { name: `${prefix}_uptime_seconds`, help: 'Seconds since the server started.', type: 'gauge', samples: [{ value: stats.uptime }] },
+            { name: `${prefix}_connected_sockets`, help: 'Sockets connected now.', type: 'gauge', samples: [{ value: stats.connections.current }] },
+            { name: `${prefix}_connections_total`, help: 'Connections accepted.', type: 'counter', samples: [{ value: stats.connections.total }] },
+            { name: `${prefix}_disconnections_total`, help: 'Disconnections.', type: 'counter', samples: [{ value: stats.connections.disconnections }] },
+            {
+                name: `${prefix}_channel_events_total`,
+                help: 'Events received by channel.',
+                type: 'counter',
+                samples: channels.map(([channel, { events }]) => ({ labels: { channel }, value: events })),
+            },
+            {
+                name: `${prefix}_channel_errors_total`,
+                help: 'Errors sent back by channel and code.',
+                type: 'counter',
+                samples: channels.flatMap(([channel, { errors }]) =>
+                    Object.entries(errors).map(([code, value]) => ({ labels: { channel, code }, value }))),
+            },
+            {
+                name: `${prefix}_handler_duration_milliseconds`,
+                help: 'Time from an event to the end of its handler.',
+                type: 'histogram',
+                samples: channels.flatMap(([channel, { latency }]) => histogramSamples(latency, { channel })),
+            },
+            { name: `${prefix}_rooms`, help: 'Rooms with at least one member.', type: 'gauge', samples: [{ value: stats.rooms.count }] },
+            { name: `${prefix}_room_members`, help: 'Memberships of every room.', type: 'gauge', samples: [{ value: stats.rooms.members }] },
+            { name: `${prefix}_room_size_max`, help: 'Members of the largest room.', type: 'gauge', samples: [{ value: stats.rooms.largest }] },
+            {
+                name: `${prefix}_auth_failures_total`,
+                help: 'Rejected credentials by reason.',
+                type: 'counter',
+                samples: Object.entries(stats.authFailures).map(([reason, value]) => ({ labels: { reason }, value })),
+            },
+        ];
+    }
+
+    private counters(channel: string): ChannelCounters {
+        let counters = this.channels.get(channel);
+        if (!counters) {
+            counters = { events: 0, errors: {}, latency: { counts: new Array(this.latencyBuckets.length + 1).fill(0), sum: 0, count: 0 } };
+            this.channels.set(channel, counters);
+        }
+        return counters;
+    }
+}
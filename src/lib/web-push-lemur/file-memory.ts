@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import { MetricsLocalMemory, PushLocalMemory } from './memory';
+import type { MetricsState } from './memory';
+import type { MemoryPage, MetricDetails, MetricName, PushMetrics, Subscription } from '../../dts/push';
+
+/**
+ * Writes a file through a temporary file renamed over it, so a crash never leaves it half written.
+ *
+ * @param {string} path - The path of the file.
+ * @param {string} content - The content of the file.
+ * @returns {Promise<void>} A promise that resolves when the file is written.
+ */
+async function writeAtomic(path: string, content: string): Promise<void> {
+    const temporary = `${path}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, content);
+    await fs.rename(temporary, path);
+}
+
+/**
+ * A class for managing subscriptions stored in a JSON file.
+ * Subscriptions are kept in memory and the file is rewritten after every change,
+ * through a temporary file renamed over it so a crash never leaves it half written.
+ *
+ * @template T The type of subscription, extending the Subscription interface.
+ * @example
+ * const pushManager = new WebPushLemur(settings, "id", new PushFileMemory("./subscriptions.json"));
+ */
+export class PushFileMemory<T extends Subscription> extends PushLocalMemory<T> {
+    private loading?: Promise<void>;
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates an instance of PushFileMemory.
+     *
+     * @param {string} path - The path of the JSON file, created on the first save.
+     */
+    constructor(private readonly path: string) {
+        super();
+    }
+
+    async all(): Promise<T[]> {
+        await this.load();
+        return super.all();
+    }
+
+    async one(id: string): Promise<T | undefined> {
+        await this.load();
+        return super.one(id);
+    }
+
+    async save(subscription: T, id: string): Promise<void | T> {
+        await this.load();
+        const saved = await super.save(subscription, id);
+        await this.persist();
+        return saved;
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.load();
+        await super.delete(id);
+        await this.persist();
+    }
+
+    async count(): Promise<number> {
+        await this.load();
+        return super.count();
+    }
+
+    async findBy(field: string, value: any): Promise<T[]> {
+        await this.load();
+        return super.findBy(field, value);
+    }
+
+    async list(cursor?: string, limit?: number): Promise<MemoryPage<T>> {
+        await this.load();
+        return super.list(cursor, limit);
+    }
+
+    /**
+     * Reads the file once, a missing file is an empty store.
+     *
+     * @returns {Promise<void>} A promise that resolves when the subscriptions are loaded.
+     */
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = fs.readFile(this.path, 'utf8')
+                .then(content => {
+                    const stored: Record<string, T> = JSON.parse(content);
+                    Object.entries(stored).forEach(([id, subscription]) => this.subscriptions.set(id, subscription));
+                })
+                .catch(error => {
+                    if (error?.code !== 'ENOENT') {
+                        this.loading = undefined; // Try again on the next call.
+                        throw error;
+                    }
+                });
+        }
+        return this.loading;
+    }
+
+    /**
+     * Writes the subscriptions to a temporary file and renames it over the file.
+     * Writes run one after another, each one with the subscriptions at the time it runs.
+     *
+     * @returns {Promise<void>} A promise that resolves when the file is written.
+     */
+    private persist(): Promise<void> {
+        const write = () => writeAtomic(this.path, JSON.stringify(Object.fromEntries(this.subscriptions)));
+        this.writing = this.writing.catch(() => undefined).then(write);
+        return this.writing;
+    }
+}
+
+/**
+ * A class for managing notification metrics saved to a JSON file, so they survive a restart.
+ * The file is written at most once per `flushInterval` after a change, call `flush` before exiting.
+ *
+ * @example
+ * const metrics = new MetricsFileMemory("./push-metrics.json");
+ * const pushManager = new WebPushLemur(settings, "id", new PushLocalMemory(), metrics);
+ * process.on("SIGTERM", () => metrics.flush());
+ */
+export class MetricsFileMemory extends MetricsLocalMemory {
+    private loading?: Promise<void>;
+    private writing: Promise<void> = Promise.resolve();
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Creates an instance of MetricsFileMemory.
+     *
+     * @param {string} path - The path of the JSON file, created on the first flush.
+     * @param {number} flushInterval - Milliseconds between a change and the write of the file.
+     * @param {() => number} now - Clock returning the current time in milliseconds.
+     * @param {number[]} latencyBuckets - Bounds in milliseconds of the latency histogram.
+     */
+    constructor(
+        private readonly path: string,
+        private readonly flushInterval: number = 5000,
+        now?: () => number,
+        latencyBuckets?: number[]
+    ) {
+        super(now, latencyBuckets);
+    }
+
+    async increment(metric: MetricName, details?: MetricDetails): Promise<void> {
+        await this.load();
+        await super.increment(metric, details);
+        this.schedule();
+    }
+
+    async getMetrics(): Promise<PushMetrics> {
+        await this.load();
+        return super.getMetrics();
+    }
+
+    async resetMetrics(): Promise<void> {
+        await this.load();
+        await super.resetMetrics();
+        await this.flush();
+    }
+
+    /**
+     * Writes the metrics to the file now.
+     *
+     * @returns {Promise<void>} A promise that resolves when the file is written.
+     */
+    flush(): Promise<void> {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = undefined;
+
+        const write = () => writeAtomic(this.path, JSON.stringify(this.state));
+        this.writing = this.writing.catch(() => undefined).then(write);
+        return this.writing;
+    }
+
+    private schedule(): void {
+        if (this.timer) return;
+        this.timer = setTimeout(() => this.flush().catch(() => undefined), this.flushInterval);
+        this.timer.unref?.(); // Do not keep the process alive for the write.
+    }
+
+    /**
+     * Reads the file once, a missing file starts from zero.
+     * A histogram saved with other bounds is dropped.
+     *
+     * @returns {Promise<void>} A promise that resolves when the metrics are loaded.
+     */
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = fs.readFile(this.path, 'utf8')
+                .then(content => {
+                    const saved: MetricsState = JSON.parse(content);
+                    const empty = this.empty();
+                    this.state = {
+                        ...empty,
+                        ...saved,
+                        latency: saved.latency?.counts?.length === empty.latency.counts.length ? saved.latency : empty.latency,
+                    };
+                })
+                .catch(error => {
+                    if (error?.code !== 'ENOENT') {
+                        this.loading = undefined; // Try again on the next call.
+                        throw error;
+                    }
+                });
+        }
+        return this.loading;
+    }
+}
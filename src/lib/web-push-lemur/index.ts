@@ -1,14 +1,32 @@
 import webPush from 'web-push';
+import { createHash, randomUUID } from 'crypto';
 import { Logger } from '../logger';
-import { MetricsLocalMemory, PushLocalMemory } from './memory';
-import type { Keys, Memory, MetricsMemory, Payload, Settings, Subscription } from '../../dts/push';
+import { MetricsLocalMemory, PushLocalMemory, QueueLocalMemory } from './memory';
+import { DeliveryLimiter } from './limiter';
+import { histogramSamples, toPrometheus } from '../prometheus';
+import type { DeliveryJob, DeliveryReport, DeliveryResult, DeliveryTarget, Keys, Memory, MetricsMemory, Payload, QueueMemory, SendOptions, Settings, Subscription, MetricDetails, MetricName, PushMetrics } from '../../dts/push';
 import type { LoggerSystem } from '../../dts/logger';
 
+/**
+ * Largest plaintext payload: 4096 bytes minus the aes128gcm header (86), tag (16) and padding delimiter (1).
+ */
+const MAX_PAYLOAD_BYTES = 4096 - 103;
+
+/**
+ * Codes of the transport errors worth retrying, other errors without a status (bad keys, subscription or payload) fail at once.
+ */
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH'];
+
 /**
  * Class for managing Web Push notifications with support for subscriptions, metrics, and logging.
  * Provides functionality to add, delete, and send notifications to all or a single subscription.
  */
 export class WebPushLemur<T extends Subscription & Record<string, any>> {
+    private limiter: DeliveryLimiter;
+    private scheduler?: ReturnType<typeof setInterval>;
+    private running: Set<string> = new Set(); // Jobs being sent by this instance
+    private cancelled: Set<string> = new Set();
+
     /**
      * Creates an instance of WebPushLemur.
      *
@@ -16,6 +34,7 @@ export class WebPushLemur<T extends Subscription & Record<string, any>> {
      * @param {Memory<T>} memory - In-memory storage for managing subscriptions.
      * @param {MetricsMemory} metricsMemory - In-memory storage for managing metrics.
      * @param {LoggerSystem} logger - Logger system used for logging notifications and errors.
+     * @param {QueueMemory} queueMemory - In-memory storage for scheduled delivery jobs.
      */
     constructor(
         private readonly settings: Settings,
@@ -23,12 +42,14 @@ export class WebPushLemur<T extends Subscription & Record<string, any>> {
         private readonly memory: Memory<T> = new PushLocalMemory(),
         private readonly metricsMemory: MetricsMemory = new MetricsLocalMemory(),
         private readonly logger: LoggerSystem = new Logger("logger-console"),
+        private readonly queueMemory: QueueMemory = new QueueLocalMemory(),
     ) {
         webPush.setVapidDetails(
             `mailto:${this.settings.email}`,
             this.settings.vapidPublicKey,
             this.settings.vapidPrivateKey
         );
+        this.limiter = new DeliveryLimiter(this.settings.queue?.concurrency || 100, this.settings.queue?.ratePerSecond);
     }
 
     /**
@@ -52,19 +73,171 @@ export class WebPushLemur<T extends Subscription & Record<string, any>> {
         return await this.memory.delete(id);
     }
 
+    /**
+     * Adds a device of a user, stored as its own subscription so each device keeps receiving notifications.
+     * The subscription ID is derived from the endpoint, so adding the same endpoint again replaces it.
+     *
+     * @param {string} userId - The user the device belongs to.
+     * @param {T} subscription - The subscription of the device.
+     * @returns {Promise<void | T>} A promise that resolves when the subscription is saved.
+     */
+    public async addDevice(userId: string, subscription: T): Promise<void | T> {
+        this.validateSubscription(subscription);
+        const id = this.deviceId(subscription.endpoint);
+        return await this.memory.save({ ...subscription, [this.key]: id, userId }, id);
+    }
+
+    /**
+     * Removes the device with the given endpoint.
+     *
+     * @param {string} endpoint - The endpoint of the device subscription.
+     * @returns {Promise<void | T>} A promise that resolves when the subscription is deleted.
+     */
+    public async removeDevice(endpoint: string): Promise<void | T> {
+        return await this.memory.delete(this.deviceId(endpoint));
+    }
+
+    /**
+     * Retrieves the device subscriptions of a user.
+     *
+     * @param {string} userId - The user the devices belong to.
+     * @returns {Promise<T[]>} A promise that resolves with the subscriptions.
+     */
+    public async getDevices(userId: string): Promise<T[]> {
+        return await this.memory.findBy('userId', userId);
+    }
+
+    /**
+     * Adds topics to a subscription, such as its locale or interests.
+     *
+     * @param {string} id - The unique identifier of the subscription.
+     * @param {string[]} topics - The topics to add.
+     * @returns {Promise<void | T>} A promise that resolves when the subscription is saved.
+     */
+    public async subscribe(id: string, topics: string[]): Promise<void | T> {
+        const subscription = await this.memory.one(id);
+        if (!subscription) {
+            return await this.logger.error(`No subscription found for ID: ${id}`);
+        }
+
+        const current = subscription.topics || [];
+        return await this.memory.save({ ...subscription, topics: [...current, ...topics.filter(topic => !current.includes(topic))] }, id);
+    }
+
+    /**
+     * Removes topics from a subscription, or all of them when no topics are given.
+     *
+     * @param {string} id - The unique identifier of the subscription.
+     * @param {string[]} [topics] - The topics to remove.
+     * @returns {Promise<void | T>} A promise that resolves when the subscription is saved.
+     */
+    public async unsubscribe(id: string, topics?: string[]): Promise<void | T> {
+        const subscription = await this.memory.one(id);
+        if (!subscription) {
+            return await this.logger.error(`No subscription found for ID: ${id}`);
+        }
+
+        const remaining = topics ? (subscription.topics || []).filter(topic => !topics.includes(topic)) : [];
+        return await this.memory.save({ ...subscription, topics: remaining }, id);
+    }
+
     /**
      * Sends a notification to all subscriptions stored in memory.
+     * Subscriptions are loaded one page of `settings.pageSize` at a time.
      *
      * @param {Payload} payload - The content of the notification.
      * @param {Keys} key - The key used to identify subscriptions (default is "id").
-     * @returns {Promise<void>} A promise that resolves when all notifications are sent.
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryReport>} A promise that resolves with the outcome of every subscription.
      */
-    public async sendNotificationToAll(payload: Payload, key: Keys = this.key): Promise<void> {
-        const subscriptions = await this.memory.all();
+    public async sendNotificationToAll(payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryReport> {
+        return await this.sendNotificationWhere(() => true, payload, key, options);
+    }
 
-        await Promise.allSettled(
-            subscriptions.map(subscription => this.send(subscription, payload, key))
-        );
+    /**
+     * Sends a notification to the subscriptions subscribed to a topic.
+     *
+     * @param {string} topic - The topic of the notification.
+     * @param {Payload} payload - The content of the notification.
+     * @param {Keys} key - The key used to identify subscriptions (default is "id").
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryReport>} A promise that resolves with the outcome of every subscription.
+     */
+    public async sendNotificationToTopic(topic: string, payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryReport> {
+        return await this.sendNotificationWhere(subscription => !!subscription.topics?.includes(topic), payload, key, { label: topic, ...options });
+    }
+
+    /**
+     * Sends a notification to the subscriptions matching a predicate, e.g. a locale or user segment.
+     * Subscriptions are loaded one page of `settings.pageSize` at a time.
+     *
+     * @param {(subscription: T) => boolean} predicate - Selects the subscriptions to notify.
+     * @param {Payload} payload - The content of the notification.
+     * @param {Keys} key - The key used to identify subscriptions (default is "id").
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryReport>} A promise that resolves with the outcome of every subscription.
+     */
+    public async sendNotificationWhere(predicate: (subscription: T) => boolean, payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryReport> {
+        this.serialize(payload); // Fail before loading any page when the payload is too large.
+        return this.report(await this.sendPages(predicate, payload, key, options));
+    }
+
+    /**
+     * Schedules a notification, sent by the queue once due.
+     * The job is kept in the queue memory, so with a persistent store it survives a restart (call `start` on boot).
+     *
+     * @param {Date | number} when - When to send, as a date or a timestamp in milliseconds.
+     * @param {DeliveryTarget} target - The subscriptions to send to.
+     * @param {Payload} payload - The content of the notification.
+     * @param {Keys} key - The key used to identify subscriptions (default is "id").
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryJob>} A promise that resolves with the scheduled job.
+     */
+    public async sendAt(when: Date | number, target: DeliveryTarget, payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryJob> {
+        this.serialize(payload); // Fail now rather than when the job is due.
+        const job: DeliveryJob = { id: randomUUID(), target, payload, key, options, runAt: new Date(when).getTime() };
+        await this.queueMemory.save(job);
+        this.start();
+        return job;
+    }
+
+    /**
+     * Cancels a scheduled job. A broadcast already running stops after its current page.
+     *
+     * @param {string} jobId - The ID of the job.
+     * @returns {Promise<boolean>} A promise that resolves with true if the job was queued.
+     */
+    public async cancel(jobId: string): Promise<boolean> {
+        if (this.running.has(jobId)) this.cancelled.add(jobId);
+        return await this.queueMemory.delete(jobId);
+    }
+
+    /**
+     * Retrieves the scheduled jobs not sent yet.
+     *
+     * @returns {Promise<DeliveryJob[]>} A promise that resolves with the jobs.
+     */
+    public async getQueue(): Promise<DeliveryJob[]> {
+        return await this.queueMemory.all();
+    }
+
+    /**
+     * Starts sending the scheduled jobs when due, including jobs restored from the queue memory.
+     * Called by `sendAt`, the check runs every `settings.queue.pollInterval` milliseconds.
+     */
+    public start(): void {
+        if (this.scheduler) return;
+        this.scheduler = setInterval(() => this.runDueJobs(), this.settings.queue?.pollInterval || 1000);
+        this.scheduler.unref?.(); // Do not keep the process alive for the queue.
+        this.runDueJobs();
+    }
+
+    /**
+     * Stops checking for scheduled jobs. Jobs already running finish.
+     */
+    public stop(): void {
+        if (this.scheduler) clearInterval(this.scheduler);
+        this.scheduler = undefined;
     }
 
     /**
@@ -73,43 +246,95 @@ export class WebPushLemur<T extends Subscription & Record<string, any>> {
      * @param {string} id - The unique identifier for the subscription.
      * @param {Payload} payload - The content of the notification.
      * @param {Keys} key - The key used to identify subscriptions (default is "id").
-     * @returns {Promise<void>} A promise that resolves when the notification is sent.
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryResult | void>} A promise that resolves with the outcome, or nothing when there is no subscription.
      */
-    public async sendNotificationToOne(id: string, payload: Payload, key: Keys = this.key): Promise<void> {
+    public async sendNotificationToOne(id: string, payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryResult | void> {
         const subscription = await this.memory.one(id);
 
         if (!subscription) {
             return await this.logger.error(`No subscription found for ID: ${id}`);
         }
-        await this.send(subscription, payload, key);
+        return await this.send({ [key]: id, ...subscription }, payload, key, options);
+    }
+
+    /**
+     * Sends a notification to every device of a user.
+     * A device answering 404 or 410 is removed, the other devices are kept.
+     *
+     * @param {string} userId - The user the devices belong to.
+     * @param {Payload} payload - The content of the notification.
+     * @param {Keys} key - The key used to identify subscriptions (default is "id").
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryReport>} A promise that resolves with the outcome of every device.
+     */
+    public async sendNotificationToUser(userId: string, payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryReport> {
+        this.serialize(payload);
+        const devices = await this.getDevices(userId);
+
+        if (!devices.length) {
+            await this.logger.error(`No devices found for user: ${userId}`);
+        }
+        return this.report(await this.sendMany(devices, payload, key, options));
     }
 
     /**
-     * Sends a notification to a single subscription and handles errors or retries.
+     * Sends a notification to a single subscription.
+     * 429 (after its `Retry-After`), 5xx and network errors are retried with exponential backoff and jitter,
+     * 404 and 410 remove the subscription, and any other error fails at once.
+     * Every request takes a slot of the delivery queue, released while waiting to retry.
      *
      * @param {Subscription} subscription - The subscription to send the notification to.
      * @param {Payload} payload - The content of the notification.
      * @param {Keys} key - The key used to identify subscriptions (default is "id").
-     * @returns {Promise<void>} A promise that resolves when the notification is sent.
+     * @param {SendOptions} [options] - Options of the request, over `settings.sendOptions`.
+     * @returns {Promise<DeliveryResult>} A promise that resolves with the outcome, it never rejects.
      */
-    public async send(subscription: Subscription, payload: Payload, key: Keys = this.key): Promise<void> {
+    public async send(subscription: Subscription, payload: Payload, key: Keys = this.key, options?: SendOptions): Promise<DeliveryResult> {
+        const result: DeliveryResult = { id: subscription[key], endpoint: subscription.endpoint, status: 'failed', attempts: 0 };
+        const retries = this.settings.retrySend?.retries ?? 3;
+        const details: MetricDetails = { label: options?.label }; // The last request, for the metrics.
+
         try {
             this.validateSubscription(subscription); // Validate the subscription
-            const payloadString = JSON.stringify(payload);
+            const payloadString = this.serialize(payload);
+            const requestOptions = this.requestOptions(payload, options);
 
-            await webPush.sendNotification(subscription, payloadString);
-            await this.logger.info(`Notification sent to ${subscription[key]}`, { payload });
-            await this.metricsMemory.increment('successful'); // Update metrics
-        } catch (error: any) {
-            await this.logger.error(`Error sending notification to ${subscription[key]}`, error);
+            for (; ;) {
+                result.attempts++;
+                let startedAt = Date.now();
+                try {
+                    const response = await this.limiter.run(() => {
+                        startedAt = Date.now();
+                        return webPush.sendNotification(subscription, payloadString, requestOptions);
+                    });
+                    await this.logger.info(`Notification sent to ${subscription[key]}`, { payload });
+                    await this.metricsMemory.increment('successful', { ...details, statusCode: response.statusCode, latency: Date.now() - startedAt }); // Update metrics
+                    return { ...result, status: 'sent', statusCode: response.statusCode, error: undefined };
+                } catch (error: any) {
+                    result.statusCode = error?.statusCode;
+                    result.error = error?.body || error?.message || String(error);
+                    Object.assign(details, { statusCode: error?.statusCode, latency: Date.now() - startedAt });
 
-            if (error?.statusCode === 410) {
-                await this.delete(subscription[key]); // Remove invalid subscriptions
-            } else {
-                await this.retrySend(subscription, payload, key); // Retry on error
-            }
+                    if (error?.statusCode === 404 || error?.statusCode === 410) {
+                        await this.logger.warn(`Subscription ${subscription[key]} expired, removing it`);
+                        await this.delete(subscription[key]); // Remove invalid subscriptions
+                        await this.metricsMemory.increment('expired', details); // Update metrics
+                        return { ...result, status: 'expired' };
+                    }
 
-            await this.metricsMemory.increment('failed'); // Update metrics
+                    const wait = this.retryDelay(error, result.attempts);
+                    if (wait === undefined || result.attempts > retries) throw error;
+
+                    await this.metricsMemory.increment('retried', details); // Update metrics
+                    await this.sleep(wait);
+                }
+            }
+        } catch (error: any) {
+            result.error = result.error || error?.message || String(error);
+            await this.logger.error(`Error sending notification to ${subscription[key]}`, error);
+            await this.metricsMemory.increment('failed', details); // Update metrics
+            return result;
         }
     }
 
@@ -123,45 +348,259 @@ export class WebPushLemur<T extends Subscription & Record<string, any>> {
     }
 
     /**
-     * Retrieves the current metrics for notification successes, failures, and retries.
+     * Checks that the subscription store answers, for a readiness probe.
      *
-     * @returns {Promise<{ successful: number; failed: number; retried: number }>} A promise that resolves with the metrics.
+     * @returns {Promise<boolean>} A promise that resolves true, or rejects with the error of the store.
+     * @example
+     * server.addReadinessCheck("push", () => webPushLemur.isReady());
      */
-    public async getMetrics(): Promise<{ successful: number; failed: number; retried: number; }> {
+    public async isReady(): Promise<boolean> {
+        await this.memory.count();
+        return true;
+    }
+
+    /**
+     * Retrieves the current metrics: notification successes, failures, retries and expired subscriptions,
+     * by status code, label and time window, and the latency of the requests.
+     *
+     * @returns {Promise<PushMetrics>} A promise that resolves with the metrics.
+     */
+    public async getMetrics(): Promise<PushMetrics> {
         return await this.metricsMemory.getMetrics(); // Get metrics from memory
     }
 
     /**
-     * Retries sending a notification a specified number of times in case of failure.
+     * Resets all metrics to their initial values.
      *
-     * @param {Subscription} subscription - The subscription to send the notification to.
+     * @returns {Promise<void>} A promise that resolves when the metrics are reset.
+     */
+    public async resetMetrics(): Promise<void> {
+        await this.metricsMemory.resetMetrics();
+    }
+
+    /**
+     * Retrieves the metrics in the Prometheus text format.
+     *
+     * @param {string} prefix - Prefix of the metric names (default is "lemur_push").
+     * @returns {Promise<string>} A promise that resolves with the metrics.
+     */
+    public async getPrometheusMetrics(prefix: string = 'lemur_push'): Promise<string> {
+        const metrics = await this.getMetrics();
+        const outcomes: MetricName[] = ['successful', 'failed', 'retried', 'expired'];
+
+        return toPrometheus([
+            {
+                name: `${prefix}_notifications_total`,
+                help: 'Notifications by outcome.',
+                type: 'counter',
+                samples: outcomes.map(outcome => ({ labels: { outcome }, value: metrics[outcome] })),
+            },
+            {
+                name: `${prefix}_label_notifications_total`,
+                help: 'Notifications by topic or channel and outcome.',
+                type: 'counter',
+                samples: Object.entries(metrics.byLabel).flatMap(([label, counters]) =>
+                    outcomes.map(outcome => ({ labels: { label, outcome }, value: counters[outcome] }))),
+            },
+            {
+                name: `${prefix}_responses_total`,
+                help: 'Responses of the push service by status code.',
+                type: 'counter',
+                samples: Object.entries(metrics.byStatus).map(([status, value]) => ({ labels: { status }, value })),
+            },
+            {
+                name: `${prefix}_window_notifications`,
+                help: 'Notifications of the last minute, hour and day by outcome.',
+                type: 'gauge',
+                samples: (['minute', 'hour', 'day'] as const).flatMap(window =>
+                    outcomes.map(outcome => ({ labels: { window, outcome }, value: metrics.windows[window][outcome] }))),
+            },
+            {
+                name: `${prefix}_request_duration_milliseconds`,
+                help: 'Latency of the requests to the push service.',
+                type: 'histogram',
+                samples: histogramSamples(metrics.latency),
+            },
+        ]);
+    }
+
+    /**
+     * Sends a notification to several subscriptions at once.
+     *
+     * @param {Subscription[]} subscriptions - The subscriptions to send the notification to.
      * @param {Payload} payload - The content of the notification.
-     * @param {Keys} key - The key used to identify subscriptions (default is "id").
-     * @param {number} retries - The number of retry attempts (default is 3).
-     * @param {number} delay - The delay between retry attempts in milliseconds (default is 2000ms).
-     * @returns {Promise<void>} A promise that resolves when the notification is successfully sent or retries are exhausted.
-     */
-    private async retrySend(
-        subscription: Subscription,
-        payload: Payload,
-        key: Keys = this.key,
-        retries: number = this.settings?.retrySend?.retries || 3,
-        delay: number = this.settings?.retrySend?.delay || 2000
-    ): Promise<void> {
-        for (let attempt = 1; attempt <= retries; attempt++) {
-            try {
-                await this.send(subscription, payload, key);
-                await this.metricsMemory.increment('retried'); // Update metrics
-                return;
-            } catch (error) {
-                if (attempt === retries) {
-                    return;
-                }
-                await this.sleep(delay);
+     * @param {Keys} key - The key used to identify subscriptions.
+     * @param {SendOptions} [options] - Options of the request.
+     * @returns {Promise<DeliveryResult[]>} A promise that resolves with the outcome of every subscription.
+     */
+    private async sendMany(subscriptions: Subscription[], payload: Payload, key: Keys, options?: SendOptions): Promise<DeliveryResult[]> {
+        const settled = await Promise.allSettled(
+            subscriptions.map(subscription => this.send(subscription, payload, key, options))
+        );
+
+        return settled.map((outcome, index): DeliveryResult => outcome.status === 'fulfilled' ? outcome.value : {
+            id: subscriptions[index][key],
+            endpoint: subscriptions[index].endpoint,
+            status: 'failed',
+            attempts: 0,
+            error: outcome.reason?.message || String(outcome.reason)
+        });
+    }
+
+    /**
+     * Sends a notification to the subscriptions matching a predicate, one page at a time.
+     * For a scheduled job the progress is saved after every page, and a cancelled job stops.
+     *
+     * @param {(subscription: T) => boolean} predicate - Selects the subscriptions to notify.
+     * @param {Payload} payload - The content of the notification.
+     * @param {Keys} key - The key used to identify subscriptions.
+     * @param {SendOptions} [options] - Options of the request.
+     * @param {DeliveryJob} [job] - The scheduled job being sent.
+     * @returns {Promise<DeliveryResult[]>} A promise that resolves with the outcome of every subscription.
+     */
+    private async sendPages(predicate: (subscription: T) => boolean, payload: Payload, key: Keys, options?: SendOptions, job?: DeliveryJob): Promise<DeliveryResult[]> {
+        const results: DeliveryResult[] = [];
+        let cursor = job?.cursor;
+        do {
+            const page = await this.memory.list(cursor, this.settings.pageSize || 500);
+            results.push(...await this.sendMany(page.items.filter(predicate), payload, key, options));
+            cursor = page.cursor;
+
+            if (job && this.cancelled.has(job.id)) break;
+            if (job && cursor !== undefined) {
+                job.cursor = cursor;
+                await this.queueMemory.save({ ...job });
+            }
+        } while (cursor !== undefined);
+
+        return results;
+    }
+
+    /**
+     * Sends the due jobs that are not running yet.
+     */
+    private async runDueJobs(): Promise<void> {
+        try {
+            const jobs = await this.queueMemory.due(Date.now());
+            jobs.filter(job => !this.running.has(job.id)).forEach(job => this.runJob(job));
+        } catch (error) {
+            await this.logger.error('Failed to read the delivery queue', error);
+        }
+    }
+
+    /**
+     * Sends a scheduled job and removes it from the queue. A failed job is tried again later, see `retryJob`.
+     *
+     * @param {DeliveryJob} job - The job to send.
+     */
+    private async runJob(job: DeliveryJob): Promise<void> {
+        this.running.add(job.id);
+        try {
+            const { target, payload, key, options } = job;
+            let report: DeliveryReport;
+            switch (target.type) {
+                case 'one':
+                    report = this.report([await this.sendNotificationToOne(target.id, payload, key, options)].filter(Boolean) as DeliveryResult[]);
+                    break;
+                case 'user':
+                    report = await this.sendNotificationToUser(target.userId, payload, key, options);
+                    break;
+                case 'topic':
+                    report = this.report(await this.sendPages(subscription => !!subscription.topics?.includes(target.topic), payload, key, { label: target.topic, ...options }, job));
+                    break;
+                default:
+                    report = this.report(await this.sendPages(() => true, payload, key, options, job));
             }
+
+            await this.queueMemory.delete(job.id);
+            const { total, sent, failed, expired } = report;
+            await this.logger.info(`Delivery job ${job.id} finished`, { total, sent, failed, expired });
+        } catch (error) {
+            await this.retryJob(job, error);
+        } finally {
+            this.running.delete(job.id);
+            this.cancelled.delete(job.id);
         }
     }
 
+    /**
+     * Puts a failed job back in the queue with exponential backoff, from the page it reached.
+     * After `settings.queue.maxAttempts` failed runs the job is dropped.
+     *
+     * @param {DeliveryJob} job - The job that failed.
+     * @param {any} error - The error of the run.
+     */
+    private async retryJob(job: DeliveryJob, error: any): Promise<void> {
+        const attempts = (job.attempts || 0) + 1;
+        const maxAttempts = this.settings.queue?.maxAttempts ?? 5;
+        try {
+            if (this.cancelled.has(job.id)) return;
+            if (attempts >= maxAttempts) {
+                await this.queueMemory.delete(job.id);
+                return await this.logger.error(`Delivery job ${job.id} dropped after ${attempts} attempts`, error);
+            }
+
+            const delay = Math.min((this.settings.queue?.retryDelay ?? 60 * 1000) * 2 ** (attempts - 1), 60 * 60 * 1000);
+            await this.queueMemory.save({ ...job, attempts, runAt: Date.now() + delay, lastError: error?.message || String(error) });
+            await this.logger.error(`Delivery job ${job.id} failed, attempt ${attempts} of ${maxAttempts}`, error);
+        } catch (saveError) {
+            await this.logger.error(`Failed to requeue delivery job ${job.id}`, saveError);
+        }
+    }
+
+    /**
+     * Aggregates the outcome of several deliveries.
+     *
+     * @param {DeliveryResult[]} results - The outcome of every subscription.
+     * @returns {DeliveryReport} The report.
+     */
+    private report(results: DeliveryResult[]): DeliveryReport {
+        const count = (status: DeliveryResult['status']) => results.filter(result => result.status === status).length;
+        return { total: results.length, sent: count('sent'), failed: count('failed'), expired: count('expired'), results };
+    }
+
+    /**
+     * Computes the wait before retrying a failed attempt.
+     * 429 waits its `Retry-After` when present, 5xx and transport errors back off exponentially with jitter.
+     *
+     * @param {any} error - The error of the attempt.
+     * @param {number} attempt - The number of the failed attempt, from 1.
+     * @returns {number | undefined} The wait in milliseconds, or undefined when the error is not retryable.
+     */
+    private retryDelay(error: any, attempt: number): number | undefined {
+        const statusCode: number | undefined = error?.statusCode;
+        const delay = this.settings.retrySend?.delay ?? 2000;
+        const maxDelay = this.settings.retrySend?.maxDelay ?? 60 * 1000;
+
+        if (statusCode === 429) {
+            const retryAfter = this.retryAfter(error?.headers?.['retry-after']);
+            if (retryAfter !== undefined) return retryAfter <= maxDelay ? retryAfter : undefined;
+        } else if (statusCode !== undefined && statusCode < 500) {
+            return undefined;
+        } else if (statusCode === undefined && !NETWORK_ERROR_CODES.includes(error?.code)) {
+            return undefined;
+        }
+
+        const backoff = Math.min(delay * 2 ** (attempt - 1), maxDelay);
+        return backoff / 2 + Math.random() * backoff / 2;
+    }
+
+    /**
+     * Parses a `Retry-After` header, in seconds or as an HTTP date.
+     *
+     * @param {string} [header] - The header value.
+     * @returns {number | undefined} The wait in milliseconds, or undefined when missing or invalid.
+     */
+    private retryAfter(header?: string): number | undefined {
+        if (!header) return undefined;
+
+        const seconds = Number(header);
+        if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+        const date = Date.parse(header);
+        return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+    }
+
     /**
      * Pauses execution for a specified number of milliseconds.
      *
@@ -172,6 +611,54 @@ export class WebPushLemur<T extends Subscription & Record<string, any>> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
+    /**
+     * Serializes a payload, rejecting it when the encrypted message would exceed the 4096 bytes push services accept.
+     *
+     * @param {Payload} payload - The content of the notification.
+     * @returns {string} The serialized payload.
+     * @throws {Error} Throws an error if the payload is too large.
+     */
+    private serialize(payload: Payload): string {
+        const payloadString = JSON.stringify(payload);
+        const size = Buffer.byteLength(payloadString);
+        if (size > MAX_PAYLOAD_BYTES) {
+            throw new Error(`Payload too large: ${size} bytes, the limit is ${MAX_PAYLOAD_BYTES} bytes (4096 bytes once encrypted).`);
+        }
+        return payloadString;
+    }
+
+    /**
+     * Merges the options of a send with the defaults of the settings.
+     * Without a TTL, the `expireTime` of the payload (in milliseconds) becomes the TTL in seconds.
+     *
+     * @param {Payload} payload - The content of the notification.
+     * @param {SendOptions} [options] - The options of the send.
+     * @returns {SendOptions} The options of the request.
+     */
+    private requestOptions(payload: Payload, options?: SendOptions): SendOptions {
+        const defaults = this.settings.sendOptions;
+        const TTL = options?.TTL
+            ?? (payload.expireTime !== undefined ? Math.ceil(payload.expireTime / 1000) : defaults?.TTL);
+        const headers = { ...defaults?.headers, ...options?.headers };
+
+        return {
+            ...(TTL !== undefined && { TTL }),
+            ...((options?.urgency || defaults?.urgency) && { urgency: options?.urgency || defaults?.urgency }),
+            ...((options?.topic || defaults?.topic) && { topic: options?.topic || defaults?.topic }),
+            ...(Object.keys(headers).length && { headers }),
+        };
+    }
+
+    /**
+     * Derives the subscription ID of a device from its endpoint.
+     *
+     * @param {string} endpoint - The endpoint of the device subscription.
+     * @returns {string} The subscription ID.
+     */
+    private deviceId(endpoint: string): string {
+        return `device:${createHash('sha256').update(endpoint).digest('hex').slice(0, 32)}`;
+    }
+
     /**
      * Validates a subscription object to ensure it has the required properties.
      *
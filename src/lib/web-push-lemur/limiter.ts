@@ -0,0 +1,61 @@
+/**
+ * Runs tasks with at most `concurrency` at the same time and at most `ratePerSecond` started per second.
+ * Tasks start in the order they were submitted.
+ */
+export class DeliveryLimiter {
+    private active = 0;
+    private waiting: Array<() => void> = [];
+    private nextStart = 0; // The earliest timestamp in milliseconds the next task may start.
+
+    /**
+     * Creates an instance of DeliveryLimiter.
+     *
+     * @param {number} concurrency - Maximum tasks running at the same time.
+     * @param {number} [ratePerSecond] - Maximum tasks started per second, unlimited when omitted.
+     * @param {() => number} now - Clock returning the current time in milliseconds.
+     */
+    constructor(
+        private readonly concurrency: number,
+        private readonly ratePerSecond?: number,
+        private readonly now: () => number = Date.now
+    ) { }
+
+    /**
+     * Runs a task once a slot is free and the rate allows it.
+     *
+     * @param {() => Promise<R>} task - The task to run.
+     * @returns {Promise<R>} A promise that resolves or rejects with the task.
+     */
+    async run<R>(task: () => Promise<R>): Promise<R> {
+        if (this.active >= this.concurrency) {
+            await new Promise<void>(resolve => this.waiting.push(resolve)); // The slot is handed over on release.
+        } else {
+            this.active++;
+        }
+
+        try {
+            await this.pace();
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) next();
+            else this.active--;
+        }
+    }
+
+    /**
+     * Waits until the rate allows the next task to start.
+     *
+     * @returns {Promise<void>} A promise that resolves when the task may start.
+     */
+    private async pace(): Promise<void> {
+        if (!this.ratePerSecond) return;
+
+        const now = this.now();
+        const start = Math.max(now, this.nextStart);
+        this.nextStart = start + 1000 / this.ratePerSecond;
+        if (start > now) {
+            await new Promise(resolve => setTimeout(resolve, start - now));
+        }
+    }
+}
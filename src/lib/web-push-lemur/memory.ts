@@ -1,4 +1,4 @@
-import type { Memory, MetricsMemory, Subscription } from "../../dts/push";
+import type { DeliveryJob, Memory, MemoryPage, MetricCounters, MetricDetails, MetricName, MetricsMemory, PushMetrics, QueueMemory, Subscription } from "../../dts/push";
 
 /**
  * A class for managing subscriptions stored in memory using a Map.
@@ -7,19 +7,16 @@ import type { Memory, MetricsMemory, Subscription } from "../../dts/push";
  * @template T The type of subscription, extending the Subscription interface.
  */
 export class PushLocalMemory<T extends Subscription> implements Memory<T> {
-    private subscriptions: Map<string, T> = new Map();
+    protected subscriptions: Map<string, T> = new Map();
 
     /**
      * Retrieves all subscriptions stored in memory.
      *
      * @returns {Promise<T[]>} A promise that resolves with a list of all subscriptions.
      */
-    all(): Promise<T[]> {
-        return new Promise((resolve) => setTimeout(() => {
-            const list = Array.from(this.subscriptions.entries())
-                .map(([id, subscription]) => ({ ...subscription, id }));
-            resolve(list);
-        }, 1000));
+    async all(): Promise<T[]> {
+        return Array.from(this.subscriptions.entries())
+            .map(([id, subscription]) => ({ ...subscription, id }));
     }
 
     /**
@@ -28,11 +25,8 @@ export class PushLocalMemory<T extends Subscription> implements Memory<T> {
      * @param {string} id - The ID of the subscription to retrieve.
      * @returns {Promise<T | undefined>} A promise that resolves with the subscription if found, or undefined if not.
      */
-    one(id: string): Promise<T | undefined> {
-        return new Promise((resolve) => setTimeout(() => {
-            const subscription = this.subscriptions.get(id);
-            resolve(subscription);
-        }, 1000));
+    async one(id: string): Promise<T | undefined> {
+        return this.subscriptions.get(id);
     }
 
     /**
@@ -43,11 +37,9 @@ export class PushLocalMemory<T extends Subscription> implements Memory<T> {
      * @param {string} id - The ID to associate with the subscription.
      * @returns {Promise<void | T>} A promise that resolves when the subscription is saved.
      */
-    save(subscription: T, id: string): Promise<void | T> {
-        return new Promise((resolve) => setTimeout(() => {
-            this.subscriptions.set(id, subscription);
-            resolve({ id, ...subscription });
-        }, 1000));
+    async save(subscription: T, id: string): Promise<void | T> {
+        this.subscriptions.set(id, subscription);
+        return { id, ...subscription };
     }
 
     /**
@@ -56,44 +48,143 @@ export class PushLocalMemory<T extends Subscription> implements Memory<T> {
      * @param {string} id - The ID of the subscription to delete.
      * @returns {Promise<void>} A promise that resolves when the subscription is deleted.
      */
-    delete(id: string): Promise<void> {
-        return new Promise((resolve) => setTimeout(() => {
-            this.subscriptions.delete(id);
-            resolve();
-        }, 1000));
+    async delete(id: string): Promise<void> {
+        this.subscriptions.delete(id);
+    }
+
+    /**
+     * Counts the subscriptions stored in memory.
+     *
+     * @returns {Promise<number>} A promise that resolves with the number of subscriptions.
+     */
+    async count(): Promise<number> {
+        return this.subscriptions.size;
+    }
+
+    /**
+     * Retrieves the subscriptions whose field has the given value.
+     *
+     * @param {string} field - The field to compare, "id" is the ID of the subscription.
+     * @param {any} value - The value to look for.
+     * @returns {Promise<T[]>} A promise that resolves with the matching subscriptions.
+     */
+    async findBy(field: string, value: any): Promise<T[]> {
+        return (await this.all()).filter(subscription => subscription[field] === value);
+    }
+
+    /**
+     * Retrieves a page of subscriptions ordered by ID.
+     * The cursor is the last ID of the previous page, so deleting subscriptions while paging skips none.
+     *
+     * @param {string} [cursor] - The cursor of the previous page, omitted for the first page.
+     * @param {number} [limit] - The maximum number of subscriptions in the page (default is 100).
+     * @returns {Promise<MemoryPage<T>>} A promise that resolves with the page.
+     */
+    async list(cursor?: string, limit: number = 100): Promise<MemoryPage<T>> {
+        const ids = Array.from(this.subscriptions.keys())
+            .filter(id => cursor === undefined || id > cursor)
+            .sort();
+        const items = ids.slice(0, limit).map(id => ({ ...this.subscriptions.get(id)!, id }));
+
+        return { items, cursor: ids.length > limit ? items[items.length - 1].id : undefined };
     }
 }
 
+/**
+ * Default bounds in milliseconds of the latency histogram.
+ */
+const LATENCY_BUCKETS = [50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Type definition for the state of the metrics, as saved by MetricsFileMemory.
+ */
+export type MetricsState = {
+    totals: MetricCounters;
+    byStatus: Record<string, number>;
+    byLabel: Record<string, MetricCounters>;
+    seconds: Record<number, MetricCounters>; // Outcomes per second of the last minute.
+    minutes: Record<number, MetricCounters>; // Outcomes per minute of the last day.
+    latency: { counts: number[]; sum: number; count: number }; // Requests per histogram bucket, the last one unbounded.
+};
+
 /**
  * A class for managing metrics related to notifications.
- * Tracks successful, failed, and retried notification attempts.
+ * Tracks successful, failed, retried and expired notifications, by status code, label and time window,
+ * and the latency of the requests to the push service.
  */
 export class MetricsLocalMemory implements MetricsMemory {
-    private metrics = {
-        successful: 0,
-        failed: 0,
-        retried: 0,
-    };
+    protected state: MetricsState;
+    private prunedAt?: number; // The second of the last prune.
+
+    /**
+     * Creates an instance of MetricsLocalMemory.
+     *
+     * @param {() => number} now - Clock returning the current time in milliseconds.
+     * @param {number[]} latencyBuckets - Bounds in milliseconds of the latency histogram.
+     */
+    constructor(
+        private readonly now: () => number = Date.now,
+        private readonly latencyBuckets: number[] = LATENCY_BUCKETS
+    ) {
+        this.state = this.empty();
+    }
 
     /**
      * Increments the specified metric.
      *
-     * @param {'successful' | 'failed' | 'retried'} metric - The metric to increment.
+     * @param {MetricName} metric - The metric to increment.
+     * @param {MetricDetails} [details] - The status code, label and latency of the outcome.
      * @returns {Promise<void>} A promise that resolves when the metric is incremented.
      */
-    async increment(metric: 'successful' | 'failed' | 'retried'): Promise<void> {
-        if (this.metrics[metric] !== undefined) {
-            this.metrics[metric]++;
+    async increment(metric: MetricName, details: MetricDetails = {}): Promise<void> {
+        if (this.state.totals[metric] === undefined) return;
+
+        const now = this.now();
+        const second = Math.floor(now / 1000);
+        const minute = Math.floor(now / 60000);
+        this.prune(second, minute);
+
+        this.state.totals[metric]++;
+        this.counters(this.state.seconds, second)[metric]++;
+        this.counters(this.state.minutes, minute)[metric]++;
+        if (details.label !== undefined) this.counters(this.state.byLabel, details.label)[metric]++;
+
+        if (details.latency !== undefined) {
+            const status = details.statusCode !== undefined ? String(details.statusCode) : 'error';
+            this.state.byStatus[status] = (this.state.byStatus[status] || 0) + 1;
+
+            const bucket = this.latencyBuckets.findIndex(bound => details.latency! <= bound);
+            this.state.latency.counts[bucket === -1 ? this.latencyBuckets.length : bucket]++;
+            this.state.latency.sum += details.latency;
+            this.state.latency.count++;
         }
     }
 
     /**
      * Retrieves the current metrics.
      *
-     * @returns {Promise<{ successful: number; failed: number; retried: number }>} A promise that resolves with the current metrics.
+     * @returns {Promise<PushMetrics>} A promise that resolves with the current metrics.
      */
-    async getMetrics(): Promise<{ successful: number; failed: number; retried: number }> {
-        return { ...this.metrics };
+    async getMetrics(): Promise<PushMetrics> {
+        const now = this.now();
+        const second = Math.floor(now / 1000);
+        const minute = Math.floor(now / 60000);
+        this.prune(second, minute);
+
+        let cumulative = 0;
+        const buckets = this.latencyBuckets.map((le, index) => ({ le, count: cumulative += this.state.latency.counts[index] }));
+
+        return {
+            ...this.state.totals,
+            byStatus: { ...this.state.byStatus },
+            byLabel: Object.fromEntries(Object.entries(this.state.byLabel).map(([label, counters]) => [label, { ...counters }])),
+            windows: {
+                minute: this.sum(this.state.seconds, second - 59),
+                hour: this.sum(this.state.minutes, minute - 59),
+                day: this.sum(this.state.minutes, minute - 1439),
+            },
+            latency: { buckets, sum: this.state.latency.sum, count: this.state.latency.count },
+        };
     }
 
     /**
@@ -102,6 +193,93 @@ export class MetricsLocalMemory implements MetricsMemory {
      * @returns {Promise<void>} A promise that resolves when the metrics are reset.
      */
     async resetMetrics(): Promise<void> {
-        this.metrics = { successful: 0, failed: 0, retried: 0 };
+        this.state = this.empty();
+    }
+
+    protected empty(): MetricsState {
+        return {
+            totals: { successful: 0, failed: 0, retried: 0, expired: 0 },
+            byStatus: {},
+            byLabel: {},
+            seconds: {},
+            minutes: {},
+            latency: { counts: new Array(this.latencyBuckets.length + 1).fill(0), sum: 0, count: 0 },
+        };
+    }
+
+    private counters(record: Record<string | number, MetricCounters>, key: string | number): MetricCounters {
+        return record[key] ||= { successful: 0, failed: 0, retried: 0, expired: 0 };
+    }
+
+    /**
+     * Adds the counters of the buckets from `since` on.
+     */
+    private sum(record: Record<number, MetricCounters>, since: number): MetricCounters {
+        const total: MetricCounters = { successful: 0, failed: 0, retried: 0, expired: 0 };
+        for (const [key, counters] of Object.entries(record)) {
+            if (Number(key) < since) continue;
+            (Object.keys(total) as MetricName[]).forEach(metric => total[metric] += counters[metric]);
+        }
+        return total;
+    }
+
+    /**
+     * Drops the buckets older than the last minute and the last day.
+     */
+    private prune(second: number, minute: number): void {
+        if (this.prunedAt === second) return;
+        this.prunedAt = second;
+        Object.keys(this.state.seconds).forEach(key => Number(key) < second - 59 && delete this.state.seconds[Number(key)]);
+        Object.keys(this.state.minutes).forEach(key => Number(key) < minute - 1439 && delete this.state.minutes[Number(key)]);
+    }
+}
+
+/**
+ * A class for storing scheduled delivery jobs in memory.
+ * Jobs are lost on restart, implement `QueueMemory` over a database to keep them.
+ */
+export class QueueLocalMemory implements QueueMemory {
+    private jobs: Map<string, DeliveryJob> = new Map();
+
+    /**
+     * Saves a job, replacing the one with the same ID.
+     *
+     * @param {DeliveryJob} job - The job to save.
+     * @returns {Promise<void>} A promise that resolves when the job is saved.
+     */
+    async save(job: DeliveryJob): Promise<void> {
+        this.jobs.set(job.id, { ...job });
+    }
+
+    /**
+     * Deletes a job by its ID.
+     *
+     * @param {string} id - The ID of the job.
+     * @returns {Promise<boolean>} A promise that resolves with true if the job existed.
+     */
+    async delete(id: string): Promise<boolean> {
+        return this.jobs.delete(id);
+    }
+
+    /**
+     * Retrieves the jobs due at the given time, oldest first.
+     *
+     * @param {number} now - The timestamp in milliseconds.
+     * @returns {Promise<DeliveryJob[]>} A promise that resolves with the due jobs.
+     */
+    async due(now: number): Promise<DeliveryJob[]> {
+        return Array.from(this.jobs.values())
+            .filter(job => job.runAt <= now)
+            .sort((a, b) => a.runAt - b.runAt)
+            .map(job => ({ ...job }));
+    }
+
+    /**
+     * Retrieves all stored jobs.
+     *
+     * @returns {Promise<DeliveryJob[]>} A promise that resolves with the jobs.
+     */
+    async all(): Promise<DeliveryJob[]> {
+        return Array.from(this.jobs.values(), job => ({ ...job }));
     }
 }
@@ -0,0 +1,118 @@
+import type { Memory, MemoryPage, SqliteDatabase, Subscription } from '../../dts/push';
+
+/**
+ * A class for managing subscriptions stored in SQLite.
+ * The driver is injected, so any database with the better-sqlite3 API (`exec`, `prepare`) works
+ * without adding a dependency to this package.
+ *
+ * @template T The type of subscription, extending the Subscription interface.
+ * @example
+ * import Database from "better-sqlite3";
+ *
+ * const pushManager = new WebPushLemur(settings, "id", new PushSqliteMemory(new Database("push.db")));
+ */
+export class PushSqliteMemory<T extends Subscription> implements Memory<T> {
+    /**
+     * Creates an instance of PushSqliteMemory and its table if missing.
+     *
+     * @param {SqliteDatabase} db - The database handle.
+     * @param {string} table - The name of the table (default is "push_subscriptions").
+     */
+    constructor(
+        private readonly db: SqliteDatabase,
+        private readonly table: string = 'push_subscriptions'
+    ) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+            throw new Error(`Invalid table name: ${table}`);
+        }
+        this.db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    }
+
+    /**
+     * Retrieves all subscriptions.
+     *
+     * @returns {Promise<T[]>} A promise that resolves with a list of all subscriptions.
+     */
+    async all(): Promise<T[]> {
+        const rows = this.db.prepare(`SELECT id, data FROM ${this.table} ORDER BY id`).all();
+        return rows.map(row => this.toItem(row));
+    }
+
+    /**
+     * Retrieves a specific subscription by its ID.
+     *
+     * @param {string} id - The ID of the subscription to retrieve.
+     * @returns {Promise<T | undefined>} A promise that resolves with the subscription if found, or undefined if not.
+     */
+    async one(id: string): Promise<T | undefined> {
+        const row = this.db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id);
+        return row ? JSON.parse(row.data) : undefined;
+    }
+
+    /**
+     * Saves a subscription, replacing the one stored under the same ID.
+     *
+     * @param {T} subscription - The subscription to save.
+     * @param {string} id - The ID to associate with the subscription.
+     * @returns {Promise<void | T>} A promise that resolves when the subscription is saved.
+     */
+    async save(subscription: T, id: string): Promise<void | T> {
+        this.db.prepare(`INSERT INTO ${this.table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`)
+            .run(id, JSON.stringify(subscription));
+        return { id, ...subscription };
+    }
+
+    /**
+     * Deletes a subscription by its ID.
+     *
+     * @param {string} id - The ID of the subscription to delete.
+     * @returns {Promise<void>} A promise that resolves when the subscription is deleted.
+     */
+    async delete(id: string): Promise<void> {
+        this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    }
+
+    /**
+     * Counts the stored subscriptions.
+     *
+     * @returns {Promise<number>} A promise that resolves with the number of subscriptions.
+     */
+    async count(): Promise<number> {
+        return Number(this.db.prepare(`SELECT COUNT(*) AS count FROM ${this.table}`).get().count);
+    }
+
+    /**
+     * Retrieves the subscriptions whose field has the given value.
+     *
+     * @param {string} field - The field to compare, "id" is the ID of the subscription.
+     * @param {any} value - The value to look for.
+     * @returns {Promise<T[]>} A promise that resolves with the matching subscriptions.
+     */
+    async findBy(field: string, value: any): Promise<T[]> {
+        const rows = field === 'id'
+            ? this.db.prepare(`SELECT id, data FROM ${this.table} WHERE id = ?`).all(value)
+            : this.db.prepare(`SELECT id, data FROM ${this.table} WHERE json_extract(data, ?) = ? ORDER BY id`)
+                .all(`$."${field.replace(/"/g, '')}"`, typeof value === 'boolean' ? Number(value) : value);
+        return rows.map(row => this.toItem(row));
+    }
+
+    /**
+     * Retrieves a page of subscriptions ordered by ID.
+     *
+     * @param {string} [cursor] - The cursor of the previous page, omitted for the first page.
+     * @param {number} [limit] - The maximum number of subscriptions in the page (default is 100).
+     * @returns {Promise<MemoryPage<T>>} A promise that resolves with the page.
+     */
+    async list(cursor?: string, limit: number = 100): Promise<MemoryPage<T>> {
+        const rows = cursor === undefined
+            ? this.db.prepare(`SELECT id, data FROM ${this.table} ORDER BY id LIMIT ?`).all(limit + 1)
+            : this.db.prepare(`SELECT id, data FROM ${this.table} WHERE id > ? ORDER BY id LIMIT ?`).all(cursor, limit + 1);
+        const items = rows.slice(0, limit).map(row => this.toItem(row));
+
+        return { items, cursor: rows.length > limit ? items[items.length - 1].id : undefined };
+    }
+
+    private toItem(row: { id: string, data: string }): T {
+        return { ...JSON.parse(row.data), id: row.id };
+    }
+}
@@ -1,7 +1,11 @@
 import { io, Socket as SocketIOClient } from 'socket.io-client';
-import type { LemurData, LemurOpts, LemurSecurity, OnErrorCallback } from './dts/browser';
+import type { ConnectionState, ConnectionStateChange, LemurAckResponse, LemurData, LemurOpts, LemurRequestOpts, LemurSecurity, OnErrorCallback, ReconnectEvent, ReconnectInfo, RoomMembership } from './dts/browser';
 import type { LoggerSystem } from './dts/logger';
+import type { OutboxItem, OutboxStorage } from './dts/outbox';
 import { Logger } from './lib/logger';
+import { LemurError, isLemurErrorEnvelope } from './lib/lemur-error';
+import { OutboxLocalMemory } from './lib/outbox';
+import { ExpiringMap } from './lib/expiring-map';
 
 export interface EventsMap {
     [event: string]: (...args: any[]) => void;
@@ -28,20 +32,34 @@ export type ServiceWorkerLemur<T> = {
 
 export type ChannelLemur<T> = {
     emit: (data?: LemurData<T>, token?: string) => void;
+    request: <R = any>(data?: LemurData<T>, opts?: LemurRequestOpts) => Promise<R>;
     off: () => void;
-    on: () => void;
+    on: () => () => void;
 }
 
 export class SocketClient {
     protected socket: SocketIOClient<EventsMap, EventsMap>;
     // Settings libreries
     private logger: LoggerSystem = new Logger("logger-console");
+    private outbox?: { storage: OutboxStorage, ttl: number, timeout: number };
+    private saving: Promise<void> = Promise.resolve(); // Outbox saves, one after another.
+    private replaying = false;
+    private connectionState: ConnectionState = 'idle';
+    private reconnectInfo: ReconnectInfo = { attempt: 0 };
+    private stateListeners: Set<(change: ConnectionStateChange) => void> = new Set();
+    private refreshing?: Promise<void>; // The token refresh in progress.
+    private sent?: ExpiringMap<{ name: string, state: LemurData<any> }>; // Recent emits by request id, to retry them once.
+    private retrying: Set<string> = new Set(); // Request ids retried with a new token.
+    private roomRefs: Map<string, Map<string, number>> = new Map(); // channel -> room -> subscribers
+    private joinedRooms: Map<string, Set<string | undefined>> = new Map(); // Rooms joined with `join`, by channel.
+    private reconnectListeners: Set<(event: ReconnectEvent) => void | Promise<void>> = new Set();
+    private disconnectedAt?: number;
 
     /**
      * Creates an instance of SocketClient.
      * @param {string} url - The URL of the WebSocket server.
      * @param {LemurSecurity} [security] - Optional security options.
-     * @param {OnErrorCallback} [onError] - Optional callback to handle errors.
+     * @param {OnErrorCallback} [onError] - Optional callback to handle errors, it receives the `LemurErrorEnvelope` sent by the server when there is one.
      */
     constructor(
         private readonly url: string,
@@ -53,13 +71,45 @@ export class SocketClient {
         this.disconnect = this.disconnect.bind(this);
         this.channel = this.channel.bind(this);
         this.emit = this.emit.bind(this);
-        this.off = this.off.bind(this);
         this.on = this.on.bind(this);
 
         this.socket = io(
             this.url,
             this.setOpt(this.security)
-        ).on("connect_error", onError);
+        ).on("connect_error", (error: any) => {
+            const failure = isLemurErrorEnvelope(error?.data) ? error.data : error;
+            this.handleConnectError(failure);
+            onError(failure);
+        });
+
+        // Track the connection state
+        this.socket.on("connect", () => this.handleConnect());
+        this.socket.on("disconnect", () => {
+            this.disconnectedAt = Date.now();
+            if (this.willReconnect()) {
+                this.transition('reconnecting', { delay: this.reconnectDelay(this.reconnectInfo.attempt + 1) });
+            } else {
+                this.transition('disconnected');
+            }
+        });
+        this.socket.io.on("reconnect_attempt", (attempt: number) => this.transition('reconnecting', { attempt }));
+        this.socket.io.on("reconnect_failed", () => this.transition('disconnected'));
+
+        if (this.security?.getToken) {
+            this.sent = new ExpiringMap({ ttl: 30 * 1000, maxSize: 1000 });
+            this.socket.onAny((event: string, error: any) => this.retryUnauthorized(event, error));
+            this.socket.on("auth:expired", () => this.refreshToken().catch(error => this.logger.error('Failed to refresh the token.', error)));
+        }
+
+        if (this.security?.outbox) {
+            const settings = this.security.outbox === true ? {} : this.security.outbox;
+            this.outbox = {
+                storage: settings.storage || new OutboxLocalMemory(),
+                ttl: settings.ttl ?? 24 * 60 * 60 * 1000,
+                timeout: settings.timeout ?? 10000
+            };
+            this.socket.on("connect", () => this.replay());
+        }
     }
 
 
@@ -117,6 +167,7 @@ export class SocketClient {
 
             const { name, opts } = channel;
             const eventName = `${name}:push-notifiation`;
+            const listeners = this.subscription(eventName, opts);
 
             // Return event handling methods for the channel
             return {
@@ -130,13 +181,28 @@ export class SocketClient {
                     return this.emit(eventName, { ...data, data: { ...data?.data, subscription } }, token, opts.room);
                 },
                 /**
-                 * Removes the event listeners for the channel.
+                 * Emits an event to the channel and waits for the server response.
+                 *
+                 * @param {LemurData<T>} [data] - The data to be sent with the event.
+                 * @param {LemurRequestOpts} [requestOpts] - Optional token and timeout for this call.
+                 */
+                request: <R = any>(data?: LemurData<T>, requestOpts?: LemurRequestOpts): Promise<R> => {
+                    return this.emitWithAck<R>(
+                        eventName,
+                        { ...data, data: { ...data?.data, subscription } } as LemurData<T>,
+                        requestOpts?.token,
+                        opts.room,
+                        requestOpts?.timeout ?? opts.timeout
+                    );
+                },
+                /**
+                 * Removes the event listeners registered by `on`.
                  */
-                off: () => this.off(eventName, opts),
+                off: listeners.off,
                 /**
-                 * Registers event listeners for the channel.
+                 * Registers event listeners for the channel, returns a function removing them.
                  */
-                on: () => this.on(eventName, opts)
+                on: listeners.on
             };
         } catch (error) {
             // Log the error and return undefined
@@ -199,6 +265,7 @@ export class SocketClient {
     * @returns {ChannelLemur<T>} An object with `on` and `off` methods to manage the channel.
     */
     public channel<T>(name: string, opts: LemurOpts<T>): ChannelLemur<T> {
+        const subscription = this.subscription(name, opts);
         return {
             /**
              * Emits an event to the channel with optional data and token.
@@ -208,13 +275,26 @@ export class SocketClient {
              */
             emit: (data?: LemurData<T>, token?: string): void => this.emit(name, data, token, opts.room),
             /**
-             * Removes the event listeners for the channel.
+             * Emits an event to the channel and waits for the server response.
+             * The promise rejects with the server error or when the timeout elapses.
+             *
+             * @param {LemurData<T>} [data] - The data to be sent with the event.
+             * @param {LemurRequestOpts} [requestOpts] - Optional token and timeout for this call.
+             */
+            request: <R = any>(data?: LemurData<T>, requestOpts?: LemurRequestOpts): Promise<R> => {
+                return this.emitWithAck<R>(name, data, requestOpts?.token, opts.room, requestOpts?.timeout ?? opts.timeout);
+            },
+            /**
+             * Removes the event listeners registered by `on`, and leaves the room if no other subscriber is in it.
              */
-            off: () => this.off(name, opts),
+            off: subscription.off,
             /**
-             * Event listeners for the channel.
+             * Registers the event listeners for the channel and joins its room.
+             * Calling it again keeps the same listeners.
+             *
+             * @returns {() => void} Removes exactly these listeners, like `off`.
              */
-            on: () => this.on(name, opts)
+            on: subscription.on
         };
     }
 
@@ -233,6 +313,9 @@ export class SocketClient {
      * @returns {void}
      */
     public connect(): void {
+        if (['idle', 'disconnected', 'unauthorized'].includes(this.connectionState)) {
+            this.transition('connecting', { attempt: 0 });
+        }
         this.socket.connect();
     }
 
@@ -243,6 +326,114 @@ export class SocketClient {
      */
     public disconnect(): void {
         this.socket.disconnect();
+        this.transition('disconnected');
+    }
+
+    /**
+     * Asks `security.getToken` for a new token and replaces the session on the server without reconnecting.
+     * Concurrent calls share the same refresh.
+     *
+     * @returns {Promise<void>} Resolves once the server accepted the token, rejects with a `LemurError` otherwise.
+     */
+    public refreshToken(): Promise<void> {
+        const getToken = this.security?.getToken;
+        if (!getToken) return Promise.reject(new LemurError('unauthorized', 'No getToken provider configured.'));
+
+        if (!this.refreshing) {
+            this.refreshing = (async () => {
+                const token = await getToken();
+                let response: LemurAckResponse;
+                try {
+                    response = await this.socket.timeout(10000).emitWithAck('auth:refresh', `Bearer ${token}`);
+                } catch (error) {
+                    throw new LemurError('timeout', 'Token refresh timed out.', { channel: 'auth:refresh' });
+                }
+                if ('error' in response) throw LemurError.from(response.error);
+            })().finally(() => {
+                this.refreshing = undefined;
+            });
+        }
+        return this.refreshing;
+    }
+
+    /**
+     * Retrieves the state of the connection.
+     *
+     * @returns {ConnectionState} - `idle` until `connect` is called, then `connecting`, `connected`,
+     * `reconnecting`, `disconnected` or `unauthorized` when the server rejected the credentials.
+     */
+    public getState(): ConnectionState {
+        return this.connectionState;
+    }
+
+    /**
+     * Retrieves the reconnection attempts since the connection was lost and the delay before the next one.
+     *
+     * @returns {ReconnectInfo} - `{ attempt, delay? }`, the delay is set while waiting to reconnect.
+     */
+    public getReconnectInfo(): ReconnectInfo {
+        return { ...this.reconnectInfo };
+    }
+
+    /**
+     * Registers a listener called on every change of the connection state and reconnection attempt.
+     *
+     * @param {(change: ConnectionStateChange) => void} listener - Receives the state, the previous one and the reconnection info.
+     * @returns {() => void} - Removes the listener.
+     */
+    public onStateChange(listener: (change: ConnectionStateChange) => void): () => void {
+        this.stateListeners.add(listener);
+        return () => this.stateListeners.delete(listener);
+    }
+
+    /**
+     * Registers a listener called after every reconnection, once the rooms were joined again,
+     * to fetch what the client missed while it was disconnected.
+     *
+     * @param {(event: ReconnectEvent) => void | Promise<void>} listener - Receives the attempts, the downtime and the rooms joined again.
+     * @returns {() => void} - Removes the listener.
+     */
+    public onReconnect(listener: (event: ReconnectEvent) => void | Promise<void>): () => void {
+        this.reconnectListeners.add(listener);
+        return () => this.reconnectListeners.delete(listener);
+    }
+
+    /**
+     * Retrieves the rooms the client is in, through `channel(...).on()` or `join`.
+     *
+     * @returns {RoomMembership[]} - The rooms, by channel.
+     */
+    public getRooms(): RoomMembership[] {
+        const rooms: RoomMembership[] = [];
+        this.roomRefs.forEach((refs, channel) => refs.forEach((_count, room) => rooms.push({ channel, room })));
+        this.joinedRooms.forEach((joined, channel) => joined.forEach(room => {
+            if (room === undefined || !this.roomRefs.get(channel)?.has(room)) rooms.push({ channel, room });
+        }));
+        return rooms;
+    }
+
+    /**
+     * Waits until the client is connected, without connecting it.
+     *
+     * @param {number} [timeout=10000] - Milliseconds to wait.
+     * @returns {Promise<void>} Resolves once connected, rejects with a `LemurError` on timeout or when the server rejects the credentials.
+     */
+    public waitUntilConnected(timeout: number = 10000): Promise<void> {
+        if (this.connectionState === 'connected') return Promise.resolve();
+
+        return new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                stop();
+                reject(new LemurError('timeout', `Not connected after ${timeout}ms.`));
+            }, timeout);
+            const stop = this.onStateChange(({ state, error }) => {
+                if (state !== 'connected' && state !== 'unauthorized') return;
+                clearTimeout(timer);
+                stop();
+                if (state === 'connected') resolve();
+                else reject(LemurError.from(error, 'unauthorized'));
+            });
+        });
     }
 
     /**
@@ -252,6 +443,8 @@ export class SocketClient {
      * @returns {void}
      */
     public join(name: string, room?: string): void {
+        if (!this.joinedRooms.has(name)) this.joinedRooms.set(name, new Set());
+        this.joinedRooms.get(name)!.add(room);
         this.socket.emit(`${name}:join`, room);
     }
 
@@ -262,6 +455,8 @@ export class SocketClient {
      * @returns {void}
     */
     public leave(name: string, room?: string): void {
+        this.joinedRooms.get(name)?.delete(room);
+        if (!this.joinedRooms.get(name)?.size) this.joinedRooms.delete(name);
         this.socket.emit(`${name}:leave`, room);
     }
 
@@ -296,11 +491,29 @@ export class SocketClient {
                     case 'apiKey':
                         opts.auth['x-api-key'] = value;
                         break;
+                    case 'outbox':
+                    case 'getToken':
+                        break; // Handled by the client, not a Socket.IO option.
                     default:
                         opts[key] = value;
                         break;
                 }
             }
+
+            // Socket.IO calls `auth` on every (re)connect, so each handshake carries a fresh token
+            const getToken = security.getToken;
+            if (typeof getToken === 'function') {
+                const auth = opts.auth;
+                opts.auth = (callback: (auth: Record<string, any>) => void) => {
+                    Promise.resolve()
+                        .then(() => getToken())
+                        .then(token => callback({ ...auth, authorization: `Bearer ${token}` }))
+                        .catch(error => {
+                            this?.logger.error('Error in getToken:', error);
+                            callback(auth);
+                        });
+                };
+            }
         }
 
 
@@ -308,40 +521,172 @@ export class SocketClient {
     }
 
     /**
-     * Registers event listeners for the specified channel.
+     * Moves the connection to a state and notifies the listeners when the state or the reconnection info changed.
+     *
+     * @param {ConnectionState} state - The new state.
+     * @param {Partial<ReconnectInfo> & { error?: any }} [changes] - The reconnection attempt, delay and error, if any.
+     */
+    private transition(state: ConnectionState, changes: Partial<ReconnectInfo> & { error?: any } = {}): void {
+        const previous = this.connectionState;
+        const attempt = state === 'connected' ? 0 : changes.attempt ?? this.reconnectInfo.attempt;
+        const delay = state === 'reconnecting' ? changes.delay : undefined;
+        if (state === previous && attempt === this.reconnectInfo.attempt && delay === this.reconnectInfo.delay) return;
+
+        this.connectionState = state;
+        this.reconnectInfo = delay === undefined ? { attempt } : { attempt, delay };
+        const change: ConnectionStateChange = { state, previous, ...this.reconnectInfo };
+        if (changes.error !== undefined) change.error = changes.error;
+
+        this.stateListeners.forEach(listener => {
+            try {
+                listener(change);
+            } catch (error) {
+                this.logger.error('Connection state listener failed.', error);
+            }
+        });
+    }
+
+    /**
+     * Marks the client connected and, after a reconnection, joins its rooms again before calling the `onReconnect` listeners.
+     * The server gives every reconnection a new socket, the joins sent before the first connection are buffered instead.
+     */
+    private handleConnect(): void {
+        const attempts = this.reconnectInfo.attempt;
+        this.transition('connected');
+        if (this.disconnectedAt === undefined) return;
+
+        const downtime = Date.now() - this.disconnectedAt;
+        this.disconnectedAt = undefined;
+        const rooms = this.getRooms();
+        rooms.forEach(({ channel, room }) => this.socket.emit(`${channel}:join`, room));
+
+        const event: ReconnectEvent = { attempts, downtime, recovered: !!this.socket.recovered, rooms };
+        this.reconnectListeners.forEach(listener => {
+            Promise.resolve()
+                .then(() => listener(event))
+                .catch(error => this.logger.error('Reconnect listener failed.', error));
+        });
+    }
+
+    /**
+     * Moves the connection to `unauthorized` when the server rejected the credentials,
+     * otherwise to `reconnecting` or `disconnected` depending on whether Socket.IO tries again.
+     *
+     * @param {any} error - The `LemurErrorEnvelope` sent by the server or the connection error.
+     */
+    private handleConnectError(error: any): void {
+        if (isLemurErrorEnvelope(error) && ['unauthorized', 'invalid_api_key'].includes(error.code)) {
+            return this.transition('unauthorized', { error });
+        }
+        if (this.willReconnect()) {
+            return this.transition('reconnecting', { delay: this.reconnectDelay(this.reconnectInfo.attempt + 1), error });
+        }
+        this.transition('disconnected', { error });
+    }
+
+    /**
+     * Whether Socket.IO tries to connect again after losing or failing the connection.
+     * A disconnect by either side or a rejection by a server middleware stops it.
+     *
+     * @returns {boolean}
+     */
+    private willReconnect(): boolean {
+        return this.socket.active && this.socket.io.reconnection();
+    }
+
+    /**
+     * Computes the delay of a reconnection attempt from the Socket.IO backoff settings, before jitter.
+     *
+     * @param {number} attempt - The attempt, starting at 1.
+     * @returns {number} Milliseconds before the attempt.
+     */
+    private reconnectDelay(attempt: number): number {
+        const manager = this.socket.io;
+        return Math.min(manager.reconnectionDelay() * 2 ** (attempt - 1), manager.reconnectionDelayMax());
+    }
+
+    /**
+     * Builds the `on` and `off` of a channel handle, registering its listeners at most once.
+     *
+     * @template T - The type of data that the channel handles.
+     * @param {string} channel - The name of the channel.
+     * @param {LemurOpts<T>} opts - The options for the channel.
+     * @returns {Pick<ChannelLemur<T>, 'on' | 'off'>}
+     */
+    private subscription<T>(channel: string, opts: LemurOpts<T>): Pick<ChannelLemur<T>, 'on' | 'off'> {
+        let dispose: (() => void) | undefined;
+        const off = () => {
+            dispose?.();
+            dispose = undefined;
+        };
+        return {
+            on: () => {
+                if (!dispose) dispose = this.on(channel, opts);
+                return off;
+            },
+            off
+        };
+    }
+
+    /**
+     * Registers event listeners for the specified channel and joins its room.
      *
      * @template T - The type of data that the channel handles.
      * @param {string} channel - The name of the channel.
      * @param {LemurOpts<T>} opts - The options for the channel, including success and error callbacks, and an optional room.
+     * @returns {() => void} Removes exactly these listeners and releases the room.
      */
-    private on<T>(channel: string, opts: LemurOpts<T>): void {
-        if (opts?.room) this.socket.emit(`${channel}:join`, opts.room);
-        if (opts?.successChannel) {
-            this.socket.on(`${opts?.successChannel}:success`, opts.onSuccess);
-        } else {
-            this.socket.on(`${channel}:success`, opts.onSuccess);
-        }
-        this.socket.on(`${channel}:error`, opts?.onError || console.error);
+    private on<T>(channel: string, opts: LemurOpts<T>): () => void {
+        const successEvent = `${opts?.successChannel || channel}:success`;
+        const onError = opts?.onError || console.error;
+        const errorListener = this.security?.getToken
+            ? (error: any) => !this.retrying.has(error?.requestId) && onError(error) // The retry answers instead
+            : onError;
+
+        if (opts?.room) this.acquireRoom(channel, opts.room);
+        this.socket.on(successEvent, opts.onSuccess);
+        this.socket.on(`${channel}:error`, errorListener);
+
+        return () => {
+            this.socket.off(successEvent, opts.onSuccess);
+            this.socket.off(`${channel}:error`, errorListener);
+            if (opts?.room) this.releaseRoom(channel, opts.room);
+        };
     }
 
     /**
-     * Removes the event listeners for the specified channel.
+     * Counts a subscriber of a room, joining it for the first one.
      *
      * @param {string} channel - The name of the channel.
-     * @param {LemurOpts<any>} opts - The options for the channel, including success and error callbacks, and an optional room.
+     * @param {string} room - The name of the room.
      */
-    private off(channel: string, opts: Omit<LemurOpts<any>, 'onSuccess' | 'onError'>): void {
-        if (opts?.room) this.socket.off(`${channel}:join`);
-        if (opts?.successChannel) {
-            this.socket.off(`${opts?.successChannel}:success`);
-        } else {
-            this.socket.off(`${channel}:success`);
-        }
-        this.socket.off(`${channel}:error`);
+    private acquireRoom(channel: string, room: string): void {
+        if (!this.roomRefs.has(channel)) this.roomRefs.set(channel, new Map());
+        const rooms = this.roomRefs.get(channel)!;
+        const count = rooms.get(room) || 0;
+        rooms.set(room, count + 1);
+        if (count === 0) this.socket.emit(`${channel}:join`, room);
+    }
+
+    /**
+     * Releases a subscriber of a room, leaving it after the last one.
+     *
+     * @param {string} channel - The name of the channel.
+     * @param {string} room - The name of the room.
+     */
+    private releaseRoom(channel: string, room: string): void {
+        const rooms = this.roomRefs.get(channel);
+        const count = rooms?.get(room) || 0;
+        if (count > 1) return void rooms!.set(room, count - 1);
+
+        rooms?.delete(room);
+        if (!rooms?.size) this.roomRefs.delete(channel);
+        if (count === 1) this.socket.emit(`${channel}:leave`, room);
     }
 
     /**
      * Emits an event to the specified channel with optional data and token.
+     * With the outbox enabled, events emitted while disconnected or replaying are queued instead.
      *
      * @template T - The type of data that the channel handles.
      * @param {string} name - The name of the channel.
@@ -350,13 +695,201 @@ export class SocketClient {
      * @param {string} [room] - The name of the room to emit the event to, if applicable.
      */
     private emit<T>(name: string, data?: LemurData<T>, token?: string, room?: string): void {
+        const state = this.state(data, token, room);
+        if (this.outbox && (!this.socket.connected || this.replaying)) {
+            return this.enqueue(name, state);
+        }
+        this.sent?.set(state.params!.requestId!, { name, state });
+        this.socket.emit(name, state);
+    }
+
+    /**
+     * Refreshes the token and sends again, once, an event the server answered with `unauthorized`.
+     * The listeners of `${name}:error` only receive the error when the refresh fails.
+     *
+     * @param {string} event - The name of the event received.
+     * @param {any} error - The payload of the event.
+     */
+    private retryUnauthorized(event: string, error: any): void {
+        if (!event.endsWith(':error') || !isLemurErrorEnvelope(error) || error.code !== 'unauthorized') return;
+
+        const requestId = error.requestId;
+        const sent = requestId ? this.sent?.get(requestId) : undefined;
+        if (!requestId || !sent) return;
+
+        this.sent!.delete(requestId);
+        this.retrying.add(requestId);
+        this.refreshToken()
+            .then(() => {
+                this.retrying.delete(requestId);
+                this.socket.emit(sent.name, this.withoutToken(sent.state));
+            })
+            .catch(failure => {
+                this.retrying.delete(requestId);
+                this.logger.error('Failed to refresh the token.', failure);
+                this.socket.listeners(event).forEach(listener => listener(error));
+            });
+    }
+
+    /**
+     * Queues an event in the outbox with an idempotency key, so the server can drop a replay it already handled.
+     *
+     * @param {string} name - The name of the channel.
+     * @param {LemurData<any>} state - The payload of the event.
+     */
+    private enqueue(name: string, state: LemurData<any>): void {
+        const { storage, ttl } = this.outbox!;
+        if (!state.params!.idempotencyKey) state.params!.idempotencyKey = this.createId();
+
+        const now = Date.now();
+        const item: OutboxItem = { id: state.params!.idempotencyKey, name, data: state, createdAt: now, expiresAt: now + ttl };
+        this.saving = this.saving
+            .then(() => storage.save(item))
+            .catch(error => this.logger.error(`Failed to queue ${name} in the outbox.`, error));
+    }
+
+    /**
+     * Sends the queued events in order while connected, dropping the expired ones.
+     * An event leaves the outbox once the server acknowledged it, so a reload or a lost connection sends it again.
+     * New events are queued behind them until the outbox is empty.
+     *
+     * @returns {Promise<void>}
+     */
+    private async replay(): Promise<void> {
+        if (!this.outbox || this.replaying) return;
+        const { storage } = this.outbox;
+        this.replaying = true;
+        try {
+            while (this.socket.connected) {
+                const saving = this.saving;
+                await saving;
+                const items = await storage.all();
+                if (!items.length && saving === this.saving) break;
+
+                for (const item of items) {
+                    if (!this.socket.connected) break;
+                    if (item.expiresAt > Date.now() && !(await this.deliver(item))) break;
+                    await storage.delete(item.id);
+                }
+            }
+        } catch (error) {
+            await this.logger.error('Failed to replay the outbox.', error);
+        } finally {
+            this.replaying = false;
+        }
+    }
+
+    /**
+     * Sends a queued event and waits for its acknowledgement, then passes the answer to the listeners of the channel.
+     * Without an answer, or with a retryable error, the event stays queued and is sent again with the same idempotency key.
+     *
+     * @param {OutboxItem} item - The queued event.
+     * @returns {Promise<boolean>} True once the server answered it.
+     */
+    private async deliver(item: OutboxItem): Promise<boolean> {
+        let response: LemurAckResponse;
+        try {
+            response = await this.socket.timeout(this.outbox!.timeout).emitWithAck(item.name, item.data);
+        } catch {
+            return false;
+        }
+
+        if ('error' in response) {
+            if (response.error?.retryable) {
+                const retryAfter = Number(response.error.details?.retryAfter) || 1000;
+                await new Promise(resolve => setTimeout(resolve, retryAfter));
+                return false;
+            }
+            this.socket.listeners(`${item.name}:error`).forEach(listener => listener(response.error));
+        } else {
+            this.socket.listeners(`${item.name}:success`).forEach(listener => listener(response.data));
+        }
+        return true;
+    }
+
+    /**
+     * Emits an event to the specified channel and resolves with the acknowledgement of the server.
+     *
+     * @template R - The type of the response.
+     * @template T - The type of data that the channel handles.
+     * @param {string} name - The name of the channel.
+     * @param {LemurData<T>} [data] - The data to be sent with the event.
+     * @param {string} [token] - An optional token for authentication.
+     * @param {string} [room] - The name of the room to emit the event to, if applicable.
+     * @param {number} [timeout=10000] - Milliseconds to wait for the acknowledgement.
+     * @returns {Promise<R>} Resolves with the response data, rejects with a `LemurError` from the server or on timeout.
+     * With `security.getToken`, an `unauthorized` answer refreshes the token and sends the request once more.
+     */
+    private async emitWithAck<R = any, T = any>(
+        name: string,
+        data?: LemurData<T>,
+        token?: string,
+        room?: string,
+        timeout: number = 10000
+    ): Promise<R> {
+        let state = this.state(data, token, room);
+        const send = async (): Promise<LemurAckResponse<R>> => {
+            try {
+                return await this.socket.timeout(timeout).emitWithAck(name, state);
+            } catch (error) {
+                throw new LemurError('timeout', `Request timed out after ${timeout}ms: ${name}`, { channel: name });
+            }
+        };
+
+        let response = await send();
+        if ('error' in response && response.error.code === 'unauthorized' && this.security?.getToken) {
+            const refreshed = await this.refreshToken().then(() => true, error => {
+                this.logger.error('Failed to refresh the token.', error);
+                return false;
+            });
+            if (refreshed) {
+                state = this.withoutToken(state);
+                response = await send(); // Retry once with the new token
+            }
+        }
+        if ('error' in response) throw LemurError.from(response.error);
+        return response.data;
+    }
+
+    /**
+     * Builds the payload sent to the server for an event.
+     *
+     * @template T - The type of data that the channel handles.
+     * @param {LemurData<T>} [data] - The data to be sent with the event.
+     * @param {string} [token] - An optional token for authentication.
+     * @param {string} [room] - The name of the room, if applicable.
+     * @returns {LemurData<T>}
+     */
+    private state<T>(data?: LemurData<T>, token?: string, room?: string): LemurData<T> {
         const state = {
-            params: data?.params || {},
+            params: { ...data?.params },
             data: data?.data || {} as any
         };
         if (token) state.params.authorization = `Bearer ${token}`;
         if (room) state.params.room = room;
-        this.socket.emit(name, state);
+        if (!state.params.requestId) state.params.requestId = this.createId();
+        return state;
+    }
+
+    /**
+     * Copies a payload without its `params.authorization`, so a call sent again after a refresh uses the new session.
+     *
+     * @template T - The type of data that the channel handles.
+     * @param {LemurData<T>} state - The payload sent the first time.
+     * @returns {LemurData<T>}
+     */
+    private withoutToken<T>(state: LemurData<T>): LemurData<T> {
+        const { authorization, ...params } = state.params || {};
+        return { ...state, params };
+    }
+
+    /**
+     * Creates a unique enough id for requests.
+     *
+     * @returns {string}
+     */
+    private createId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
     }
 
     /**
@@ -1,23 +1,45 @@
-import { createServer, Server as HTTPServer } from 'http';
+import { createServer, Server as HTTPServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
 import { Server as SocketIOServer, ServerOptions } from 'socket.io';
 import { ListenOptions } from 'net';
 import { TokenManager } from './tokenManager';
-// import { ExpiringMap } from './lib/expiring-map';
+import { ExpiringMap } from './lib/expiring-map';
 import { WebPushLemur } from './lib/web-push-lemur';
 import { Logger } from './lib/logger';
 import type { Subscription } from './dts/push';
 import type { LoggerSystem } from './dts/logger';
 import type { LemurSocket } from './dts/modules';
-import { isLemurCustomSimpleEvent, isLemurCustomWebPushEvent, isLemurSimpleEvent, isLemurSimpleWebPushEvent, isWebPushLemur } from './lib/guard';
+import type { InferSchema, LemurSchema, LemurValidationIssue } from './dts/schema';
+import type { RateLimitRule, RateLimitStore } from './dts/rate-limit';
+import type { LemurClusterState } from './dts/cluster';
+import type { MetricsSettings, ServerStats } from './dts/stats';
+import type { HealthSettings, ReadinessCheck, ReadinessReport, ServerInfo } from './dts/health';
+import type { IdempotentEvent } from './dts/outbox';
+import { isChannelOptions, isRecord, isLemurCustomSimpleEvent, isLemurCustomWebPushEvent, isLemurSimpleEvent, isLemurSimpleWebPushEvent, isWebPushLemur } from './lib/guard';
+import { validateSchema } from './lib/schema';
+import { LemurError } from './lib/lemur-error';
+import { RateLimitLocalMemory } from './lib/rate-limiter';
+import { ClusterStateLocalMemory } from './lib/cluster';
+import { StatsRecorder } from './lib/stats';
+import { toPrometheus } from './lib/prometheus';
 import type {
     ServerSettings,
     LemurNext,
     ConnectionOpt,
     LemurData,
+    LemurAck,
+    LemurAckResponse,
     Params,
     LemurEvent,
     LemurRequest,
     Channel,
+    ChannelOptions,
+    LemurContext,
+    LemurJoinGuard,
+    LemurMiddleware,
+    RoomExpiredListener,
+    RoomMember,
+    RoomPresence,
     ExpirationTime,
     LemurCustomEvents,
     LemurSimpleEvent,
@@ -34,9 +56,20 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
     protected io: SocketIOServer;
     protected socket: LemurSocket<Session> | undefined;
 
-    private authorization?: string;
-    private rooms: Map<string, Set<LemurSocket<Session>>>;
+    private rooms: ExpiringMap<Set<LemurSocket<Session>>>;
+    private roomExpiredListeners: Array<RoomExpiredListener<Session>> = [];
+    private memberships: Map<string, Map<string, string>>; // socket id -> room -> channel joined through
+    private clusterState: LemurClusterState<Session>; // Room membership of every node
+    private nodeId: string;
+    private joinGuard?: LemurJoinGuard<Session>;
     private channels: Map<string, Channel<Session>>;
+    private middlewares: Array<LemurMiddleware<any, Session>> = [];
+    private rateLimitStore: RateLimitStore;
+    private violations: Map<string, { count: number; until: number }>; // Rejected calls of a socket, counted until the retry time passes
+    private sessionTimers: Map<string, ReturnType<typeof setTimeout>>;
+    private stats: StatsRecorder;
+    private readinessChecks: Map<string, ReadinessCheck> = new Map();
+    private idempotencyKeys?: ExpiringMap<IdempotentEvent>; // Keys of the events in progress or handled, by user and channel.
 
     private logger: LoggerSystem = new Logger("logger-console");
 
@@ -56,18 +89,34 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
 
         let server = this.httpServer;
         if (server == undefined) {
-            server = createServer((_: any, res: any) => {
-                res.writeHead(404, { 'Content-Type': 'text/htm' });
-                res.end('');
-            });
+            server = createServer((req, res) => this.handleRequest(req, res));
         }
 
-        this.rooms = new Map<string, Set<LemurSocket<Session>>>();
+        this.rooms = new ExpiringMap<Set<LemurSocket<Session>>>({
+            ttl: this.roomExpirationTime().exp,
+            onExpire: (room, sockets) => {
+                this.handleRoomExpired(room, sockets)
+                    .catch(error => this.logger.error(`Failed to expire room ${room}.`, error));
+            }
+        });
+        this.memberships = new Map();
+        this.clusterState = this.settings?.cluster?.state || new ClusterStateLocalMemory();
+        this.nodeId = this.settings?.cluster?.nodeId || randomUUID();
         this.channels = new Map();
+        this.sessionTimers = new Map();
+        this.violations = new Map();
+        this.rateLimitStore = this.settings?.rateLimit?.store || new RateLimitLocalMemory();
+        this.stats = new StatsRecorder(this.metricsSettings()?.latencyBuckets);
+        const idempotency = this.idempotencySettings();
+        if (idempotency) {
+            this.idempotencyKeys = new ExpiringMap<IdempotentEvent>({ ttl: idempotency.ttl ?? 24 * 60 * 60 * 1000, maxSize: idempotency.maxKeys ?? 100000 });
+        }
         this.middleware = this.middleware.bind(this);
         this.connection = this.connection.bind(this);
 
-        this.io = new SocketIOServer(server, this.settings?.options || optsDefault);
+        const options = this.settings?.options || optsDefault;
+        const adapter = this.settings?.cluster?.adapter;
+        this.io = new SocketIOServer(server, adapter ? { ...options, adapter } : options);
         this.listen = server.listen.bind(server);
     }
 
@@ -104,30 +153,42 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         this.io.use(this.middleware).on('connection', (socket: LemurSocket<Session>) => {
             // Execute optional 'on connection' callback
             this.execute(opts?.on);
+            this.stats.connected();
 
             // Store the current socket reference
             this.socket = socket;
+            if (socket.recovered) this.restoreSession(socket);
 
             // Iterate through defined channels to configure event listeners
             this.channels.forEach((config, name) => {
                 if (config.roomSupport) {
                     // Handle joining and leaving rooms for channels that support it
-                    socket.on(`${name}:join`, (room: string) => this.handleRoomJoin(socket, room));
+                    socket.on(`${name}:join`, (room: string) => this.handleRoomJoin(name, socket, room, config));
                     socket.on(`${name}:leave`, (room: string) => this.handleRoomLeave(socket, room));
                 }
 
                 // Listen for events on the channel and handle them
-                socket.on(name, ({ data: body, params }: LemurData<any>) => {
-                    this.handleEvent<any>(name, socket, {
-                        body,
-                        params: params || {} as Params,
-                        session: undefined
-                    }, config);
-                });
+                socket.on(name, (payload: unknown, ack?: unknown) => this.handlePayload(name, socket, payload, ack, config));
+            });
+
+            // Answer events that no channel handles
+            socket.onAny((event: string, ...args: Array<any>) => {
+                if (!this.isKnownEvent(event)) this.handleUnknownEvent(socket, event, args);
+            });
+
+            // Allow the client to replace its session without reconnecting
+            socket.on('auth:refresh', (authorization: string, ack?: LemurAck) => {
+                this.handleAuthRefresh(socket, authorization, typeof ack === 'function' ? ack : undefined);
             });
 
             // Listen for 'disconnect' events and execute the optional callback
-            socket.on('disconnect', () => this.execute(opts?.off));
+            socket.on('disconnect', () => {
+                this.clearSessionTimer(socket);
+                this.violations.delete(socket.id);
+                this.localRoomsOf(socket.id).forEach(room => this.handleRoomLeave(socket, room));
+                this.stats.disconnected();
+                this.execute(opts?.off);
+            });
         });
     }
 
@@ -144,6 +205,19 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         return this;
     }
 
+    /**
+     * Adds a middleware that runs before the handler of every channel, in registration order.
+     * Middleware may mutate the request, stop it, fail it with `next(error)` or measure it
+     * (`await next()` resolves once the handler returned).
+     *
+     * @param {LemurMiddleware<any, Session>} middleware - The middleware to add.
+     * @returns {SocketServer<Session>} - Returns the current instance for method chaining.
+     */
+    public use(middleware: LemurMiddleware<any, Session>): SocketServer<Session> {
+        this.middlewares.push(middleware);
+        return this;
+    }
+
     /**
      * Retrieves the Socket.IO server instance.
      * This instance is used to manage real-time communications through WebSocket connections.
@@ -164,6 +238,181 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         return this.socket;
     }
 
+    /**
+     * Retrieves the members of a room with their session, on this node.
+     *
+     * @param {string} room - The name of the room.
+     * @returns {Array<RoomMember<Session>>} - The sockets in the room.
+     */
+    public getRoomMembers(room: string): Array<RoomMember<Session>> {
+        return Array.from(this.rooms.peek(room) || [], socket => ({ id: socket.id, session: socket.session }));
+    }
+
+    /**
+     * Retrieves the rooms a socket of this node joined through a channel.
+     *
+     * @param {LemurSocket<Session> | string} socket - The socket or its id.
+     * @returns {string[]} - The names of the rooms.
+     */
+    public getRoomsOf(socket: LemurSocket<Session> | string): string[] {
+        return this.localRoomsOf(typeof socket === 'string' ? socket : socket.id);
+    }
+
+    /**
+     * Retrieves the members of a room with their session, on every node of the cluster.
+     *
+     * @param {string} room - The name of the room.
+     * @returns {Promise<Array<RoomMember<Session>>>} - The sockets in the room.
+     */
+    public async fetchRoomMembers(room: string): Promise<Array<RoomMember<Session>>> {
+        const members = await this.clusterState.members(room);
+        return members.map(({ id, session }) => ({ id, session }));
+    }
+
+    /**
+     * Retrieves the rooms a socket joined through a channel, on any node of the cluster.
+     *
+     * @param {LemurSocket<Session> | string} socket - The socket or its id.
+     * @returns {Promise<string[]>} - The names of the rooms.
+     */
+    public fetchRoomsOf(socket: LemurSocket<Session> | string): Promise<string[]> {
+        return this.clusterState.rooms(typeof socket === 'string' ? socket : socket.id);
+    }
+
+    /**
+     * Retrieves the connections, channel events, errors, handler latency, rooms and auth failures of this node.
+     *
+     * @returns {ServerStats} - A snapshot of the stats.
+     */
+    public getStats(): ServerStats {
+        const sizes: Record<string, number> = {};
+        for (const room of Array.from(this.rooms.keys())) {
+            const members = this.rooms.peek(room);
+            if (members?.size) sizes[room] = members.size;
+        }
+        return this.stats.snapshot(sizes);
+    }
+
+    /**
+     * Retrieves the stats of this node in the Prometheus text format, as served on `settings.metrics.path`.
+     *
+     * @returns {string} - The metrics.
+     */
+    public getPrometheusMetrics(): string {
+        return toPrometheus(StatsRecorder.metrics(this.getStats(), this.metricsSettings()?.prefix));
+    }
+
+    /**
+     * Registers a check of the readiness route, e.g. that a store answers.
+     * A check with the same name is replaced.
+     *
+     * @param {string} name - The name of the check in the report.
+     * @param {ReadinessCheck} check - Resolves false or rejects when the dependency is not ready.
+     * @returns {SocketServer<Session>} - Returns the current instance for method chaining.
+     */
+    public addReadinessCheck(name: string, check: ReadinessCheck): SocketServer<Session> {
+        this.readinessChecks.set(name, check);
+        return this;
+    }
+
+    /**
+     * Removes a readiness check.
+     *
+     * @param {string} name - The name of the check.
+     * @returns {SocketServer<Session>} - Returns the current instance for method chaining.
+     */
+    public removeReadinessCheck(name: string): SocketServer<Session> {
+        this.readinessChecks.delete(name);
+        return this;
+    }
+
+    /**
+     * Runs the readiness checks at the same time, each one failing after `health.timeout` milliseconds.
+     *
+     * @returns {Promise<ReadinessReport>} - `ok` when every check passed.
+     */
+    public async checkReadiness(): Promise<ReadinessReport> {
+        const timeout = this.healthSettings()?.timeout ?? 5000;
+        const checks: ReadinessReport['checks'] = {};
+
+        await Promise.all(Array.from(this.readinessChecks).map(async ([name, check]) => {
+            const startedAt = Date.now();
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            try {
+                const expired = new Promise<never>((_, reject) => {
+                    timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+                });
+                const ready = await Promise.race([Promise.resolve().then(check), expired]);
+                checks[name] = ready === false
+                    ? { status: 'fail', duration: Date.now() - startedAt, error: 'Not ready' }
+                    : { status: 'ok', duration: Date.now() - startedAt };
+            } catch (error: any) {
+                checks[name] = { status: 'fail', duration: Date.now() - startedAt, error: error?.message || String(error) };
+            } finally {
+                clearTimeout(timer);
+            }
+        }));
+
+        const failed = Object.values(checks).some(check => check.status === 'fail');
+        return { status: failed ? 'fail' : 'ok', checks };
+    }
+
+    /**
+     * Describes this server: version, uptime, node and channels.
+     *
+     * @returns {ServerInfo} - The description.
+     */
+    public getInfo(): ServerInfo {
+        const info = this.healthSettings()?.info;
+        return {
+            version: typeof info === 'object' ? info.version : undefined,
+            uptime: this.stats.uptime(),
+            node: this.nodeId,
+            channels: Array.from(this.channels.keys()),
+        };
+    }
+
+    /**
+     * Removes a socket connected to this node from a room.
+     * The socket receives `${channel}:kicked` and the room a `left` presence.
+     *
+     * @param {string} room - The name of the room.
+     * @param {string} socketId - The id of the socket to remove.
+     * @returns {boolean} - True if the socket was in the room.
+     */
+    public kick(room: string, socketId: string): boolean {
+        const socket = Array.from(this.rooms.peek(room) || []).find(member => member.id === socketId);
+        if (!socket) return false;
+
+        const channel = this.memberships.get(socketId)?.get(room);
+        this.handleRoomLeave(socket, room);
+        if (channel) socket.emit(`${channel}:kicked`, { room });
+        return true;
+    }
+
+    /**
+     * Registers a listener called when a room expires after `roomsEnabled.exp` milliseconds of inactivity.
+     * Joining, leaving and broadcasting to a room keep it active.
+     *
+     * @param {RoomExpiredListener<Session>} listener - Receives the room and the members it had.
+     * @returns {SocketServer<Session>} - Returns the current instance for method chaining.
+     */
+    public onRoomExpired(listener: RoomExpiredListener<Session>): SocketServer<Session> {
+        this.roomExpiredListeners.push(listener);
+        return this;
+    }
+
+    /**
+     * Sets a guard checked on every room join of every channel, after the checks of the channel.
+     *
+     * @param {LemurJoinGuard<Session>} [guard] - Resolves true to let the socket join the room.
+     * @returns {SocketServer<Session>} - Returns the current instance for method chaining.
+     */
+    public setJoinGuard(guard?: LemurJoinGuard<Session>): SocketServer<Session> {
+        this.joinGuard = guard;
+        return this;
+    }
+
     /**
     * Configures a channel with various input styles.
     *
@@ -224,6 +473,62 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         pushManager: WebPushLemur<Subscription>
     ): void;
 
+    /**
+    * Configures a channel with an options object and webPush support.
+    * The type of `request.body` is inferred from `options.schema`, and invalid payloads
+    * are rejected on `${name}:error` before the handler runs.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options, including its schema and push manager.
+    */
+    public channel<S extends LemurSchema>(
+        name: string,
+        onEvent: LemurSimpleWebPushEvent<InferSchema<S> & { subscription: Subscription }, Session>,
+        options: ChannelOptions<S> & { schema: S, pushManager: WebPushLemur<Subscription> }
+    ): void;
+
+    /**
+    * Configures a channel with an options object and webPush support.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options, including its push manager.
+    */
+    public channel<T extends Record<string, any>>(
+        name: string,
+        onEvent: LemurSimpleWebPushEvent<T & { subscription: Subscription }, Session>,
+        options: ChannelOptions & { pushManager: WebPushLemur<Subscription> }
+    ): void;
+
+    /**
+    * Configures a channel with an options object.
+    * The type of `request.body` is inferred from `options.schema`, and invalid payloads
+    * are rejected on `${name}:error` before the handler runs.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options, including its schema.
+    */
+    public channel<S extends LemurSchema>(
+        name: string,
+        onEvent: LemurSimpleEvent<InferSchema<S>, Session>,
+        options: ChannelOptions<S> & { schema: S }
+    ): void;
+
+    /**
+    * Configures a channel with an options object.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options.
+    */
+    public channel<T extends Record<string, any>>(
+        name: string,
+        onEvent: LemurSimpleEvent<T, Session>,
+        options: ChannelOptions
+    ): void;
+
     /**
      * Initialize handling for a channel with optional room support.
      * @param {string} name - The name of the channel.
@@ -234,19 +539,7 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         onEvent: LemurEvent<T, Session>,
         ...args: Array<any>
     ) {
-
-        let channelName = name;
-        let pushManager: WebPushLemur<Subscription> | undefined = undefined;
-        const tokenRequired: boolean = typeof args[0] === 'boolean' ? args[0] : false;
-        const roomSupport: boolean = typeof args[1] === 'boolean' ? args[1] : this.roomExpirationTime().state;
-
-        if (isWebPushLemur(args[0])) pushManager = args[0];
-        if (isWebPushLemur(args[1])) pushManager = args[1];
-        if (isWebPushLemur(args[2])) pushManager = args[2];
-        if (pushManager) channelName = `${name}:push-notifiation`;
-
-        if (this.channels.has(channelName)) return; // Channel already configured, do not reconfigure
-        this.channels.set(channelName, { onEvent, tokenRequired, roomSupport, pushManager, type: 'simple' });
+        this.register(name, onEvent, args, 'simple');
     }
 
     /**
@@ -309,6 +602,62 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         pushManager: WebPushLemur<Subscription>
     ): void;
 
+    /**
+    * Configures a custom channel with an options object and webPush support.
+    * The type of `request.body` is inferred from `options.schema`, and invalid payloads
+    * are rejected on `${name}:error` before the handler runs.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options, including its schema and push manager.
+    */
+    public customChannel<S extends LemurSchema>(
+        name: string,
+        onEvent: LemurCustomWebPushEvent<InferSchema<S>, Session>,
+        options: ChannelOptions<S> & { schema: S, pushManager: WebPushLemur<Subscription> }
+    ): void;
+
+    /**
+    * Configures a custom channel with an options object and webPush support.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options, including its push manager.
+    */
+    public customChannel<T extends Record<string, any>>(
+        name: string,
+        onEvent: LemurCustomWebPushEvent<T, Session>,
+        options: ChannelOptions & { pushManager: WebPushLemur<Subscription> }
+    ): void;
+
+    /**
+    * Configures a custom channel with an options object.
+    * The type of `request.body` is inferred from `options.schema`, and invalid payloads
+    * are rejected on `${name}:error` before the handler runs.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options, including its schema.
+    */
+    public customChannel<S extends LemurSchema>(
+        name: string,
+        onEvent: LemurCustomSimpleEvent<InferSchema<S>, Session>,
+        options: ChannelOptions<S> & { schema: S }
+    ): void;
+
+    /**
+    * Configures a custom channel with an options object.
+    *
+    * @param name - The unique name of the channel.
+    * @param onEvent - The event handler for the channel.
+    * @param options - The channel options.
+    */
+    public customChannel<T extends Record<string, any>>(
+        name: string,
+        onEvent: LemurCustomSimpleEvent<T, Session>,
+        options: ChannelOptions
+    ): void;
+
     /**
      * Initialize handling for a channel with optional room support.
      * @param {string} name - The name of the channel.
@@ -319,14 +668,109 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         onEvent: LemurCustomEvents<T, Session>,
         ...args: Array<any>
     ) {
+        this.register(name, onEvent, args, 'custom');
+    }
+
+    /**
+     * Register a channel from the positional or options arguments of `channel` and `customChannel`.
+     * @param {string} name - The name of the channel.
+     * @param {LemurEvent<T, Session>} onEvent - Callback to handle incoming events.
+     * @param {Array<any>} args - The remaining arguments of the overload.
+     * @param {'custom' | 'simple'} type - The kind of handler.
+     */
+    private register<T>(
+        name: string,
+        onEvent: LemurEvent<T, Session>,
+        args: Array<any>,
+        type: 'custom' | 'simple'
+    ) {
+        const options: ChannelOptions = isChannelOptions(args[0]) ? args[0] : {};
+
         let channelName = name;
-        const tokenRequired: boolean = typeof args[0] === 'boolean' ? args[0] : false;
-        const roomSupport: boolean = typeof args[1] === 'boolean' ? args[1] : this.roomExpirationTime().state;
-        const pushManager: WebPushLemur<Subscription> | undefined = isWebPushLemur(args[0]) ? args[0] : undefined
+        let pushManager: WebPushLemur<Subscription> | undefined = undefined;
+        const tokenRequired: boolean = typeof args[0] === 'boolean' ? args[0] : options.tokenRequired ?? false;
+        const roomSupport: boolean = typeof args[1] === 'boolean' ? args[1] : options.roomSupport ?? this.roomExpirationTime().state;
+
+        if (isWebPushLemur(options.pushManager)) pushManager = options.pushManager;
+        if (isWebPushLemur(args[0])) pushManager = args[0];
+        if (isWebPushLemur(args[1])) pushManager = args[1];
+        if (isWebPushLemur(args[2])) pushManager = args[2];
         if (pushManager) channelName = `${name}:push-notifiation`;
 
         if (this.channels.has(channelName)) return; // Channel already configured, do not reconfigure
-        this.channels.set(channelName, { onEvent, tokenRequired, roomSupport, pushManager, type: 'custom' });
+        this.channels.set(channelName, {
+            onEvent,
+            tokenRequired,
+            roomSupport,
+            pushManager,
+            type,
+            schema: options.schema,
+            paramsSchema: options.paramsSchema,
+            middleware: options.use,
+            roles: options.roles,
+            scopes: options.scopes,
+            authorize: options.authorize,
+            authorizeJoin: options.authorizeJoin,
+            rateLimit: options.rateLimit
+        });
+    }
+
+    private metricsSettings(): MetricsSettings | undefined {
+        const metrics = this.settings?.metrics;
+        if (!metrics) return undefined;
+        return metrics === true ? {} : metrics;
+    }
+
+    private healthSettings(): HealthSettings | undefined {
+        const health = this.settings?.health;
+        if (!health) return undefined;
+        return health === true ? {} : health;
+    }
+
+    private idempotencySettings(): Exclude<ServerSettings['idempotency'], boolean> {
+        const idempotency = this.settings?.idempotency;
+        if (!idempotency) return undefined;
+        return idempotency === true ? {} : idempotency;
+    }
+
+    /**
+     * Answer the requests to the HTTP server created by the constructor.
+     * Serves the Prometheus metrics when `settings.metrics` is enabled and the liveness, readiness
+     * and info routes when `settings.health` is, anything else is a 404.
+     * @param {IncomingMessage} req - The request.
+     * @param {ServerResponse} res - The response.
+     */
+    private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+        const metrics = this.metricsSettings();
+        const health = this.healthSettings();
+        const info = typeof health?.info === 'object' ? health.info : health?.info ? {} : undefined;
+        const path = (req.url || '/').split('?')[0];
+        const json = (status: number, body: any) => {
+            res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+            res.end(JSON.stringify(body));
+        };
+
+        try {
+            if (req.method === 'GET' && metrics && path === (metrics.path || '/metrics')) {
+                res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+                return res.end(this.getPrometheusMetrics());
+            }
+            if (req.method === 'GET' && health && path === (health.livenessPath || '/healthz')) {
+                return json(200, { status: 'ok' });
+            }
+            if (req.method === 'GET' && health && path === (health.readinessPath || '/readyz')) {
+                const report = await this.checkReadiness();
+                return json(report.status === 'ok' ? 200 : 503, report);
+            }
+            if (req.method === 'GET' && info && path === (info.path || '/info')) {
+                return json(200, this.getInfo());
+            }
+        } catch (error) {
+            this.logger.error(`Failed to answer ${path}.`, error);
+            return json(500, { status: 'fail' });
+        }
+        res.writeHead(404, { 'Content-Type': 'text/htm' });
+        res.end('');
     }
 
     private roomExpirationTime(): Omit<ExpirationTime, "state"> & { state: boolean } {
@@ -343,35 +787,198 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
 
     /**
      * Middleware for authenticating API key and JWT token.
+     * The token is verified once per connection and the decoded session is attached to the socket.
      * @param {LemurSocket<Session>} socket - The socket instance.
      * @param {LemurNext} next - The next function to call.
      */
     private middleware(socket: LemurSocket<Session>, next: LemurNext) {
         const { auth } = socket.handshake;
         const apikey = auth['x-api-key'] as string;
-        this.authorization = auth['authorization'] as string;
         if (this.settings?.apikey && !this.validApiKey(apikey)) {
-            this.logger.error('Unauthorized access: Invalid API key.', auth);
-            return next(new Error('Unauthorized access: Invalid API key.'));
+            const error = new LemurError('invalid_api_key', 'Unauthorized access: Invalid API key.');
+            this.stats.authFailure('invalid_api_key');
+            this.logger.error(error.message, auth);
+            // Socket.IO forwards `data` to the client's `connect_error` listener
+            return next(Object.assign(error, { data: error.toJSON() }));
+        }
+
+        const authorization = auth['authorization'] as string | undefined;
+        if (authorization && !this.authenticate(socket, authorization)) {
+            this.stats.authFailure('invalid_token');
+            this.logger.warn('Handshake token rejected, socket connected without session.', { id: socket.id });
         }
         next();
     }
 
+    /**
+     * Verify a token and attach the decoded session to the socket.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     * @param {string} authorization - The token, with or without the `Bearer` prefix.
+     * @returns {boolean} True if the token produced a valid session.
+     */
+    private authenticate(socket: LemurSocket<Session>, authorization: string): boolean {
+        if (!this.settings?.secret) return false;
+
+        const session = this.validToken<Session>(this.settings.secret, authorization);
+        if (!Object.keys(session).length) return false;
+
+        socket.session = session;
+        socket.data = { ...socket.data, session }; // Kept by `connectionStateRecovery` across reconnections
+        this.scheduleSessionExpiration(socket, session);
+        return true;
+    }
+
+    /**
+     * Restore the session of a socket recovered by `connectionStateRecovery`, which skips the middleware by default.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     */
+    private restoreSession(socket: LemurSocket<Session>) {
+        const session = socket.data?.session as Session | undefined;
+        if (!session || socket.session) return;
+
+        socket.session = session;
+        this.scheduleSessionExpiration(socket, session);
+    }
+
+    /**
+     * Replace the session of a connected socket with the one carried by a new token.
+     * Answers through the acknowledgement when the client sent one, otherwise emits
+     * `auth:refresh:success` or `auth:refresh:error` back to the socket. The socket stays connected either way.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     * @param {string} authorization - The new token.
+     * @param {LemurAck} [ack] - The acknowledgement callback of the event, if any.
+     */
+    private handleAuthRefresh(socket: LemurSocket<Session>, authorization: string, ack?: LemurAck) {
+        if (typeof authorization === 'string' && this.authenticate(socket, authorization)) {
+            const data = { exp: socket.session?.exp };
+            return ack ? ack({ data }) : socket.emit('auth:refresh:success', data);
+        }
+        this.stats.authFailure('refresh_rejected');
+        const error = new LemurError('unauthorized', 'Unauthorized access: Invalid token.', { channel: 'auth:refresh' }).toJSON();
+        if (ack) ack({ error });
+        else socket.emit('auth:refresh:error', error);
+        this.logger.error('auth:refresh:error', { id: socket.id });
+    }
+
+    /**
+     * Return the session of a socket, dropping it first if its token has already expired.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     * @returns {Session | undefined} The current session, if any.
+     */
+    private currentSession(socket: LemurSocket<Session>): Session | undefined {
+        const session = socket.session;
+        if (session && this.isExpired(session)) {
+            this.expireSession(socket);
+            return undefined;
+        }
+        return session;
+    }
+
+    /**
+     * Schedule the expiration of a socket session from its `exp` claim.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     * @param {Session} session - The decoded session.
+     */
+    private scheduleSessionExpiration(socket: LemurSocket<Session>, session: Session) {
+        this.clearSessionTimer(socket);
+        if (typeof session.exp !== 'number') return;
+
+        const delay = session.exp * 1000 - Date.now();
+        if (delay <= 0) return this.expireSession(socket);
+        // Timers longer than ~24.8 days overflow; the check in `currentSession` covers them.
+        if (delay > 2147483647) return;
+
+        this.sessionTimers.set(socket.id, setTimeout(() => this.expireSession(socket), delay));
+    }
+
+    /**
+     * Drop the session of a socket whose token expired while connected.
+     * Depending on `settings.sessionExpiration` the socket is kept anonymous or disconnected.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     */
+    private expireSession(socket: LemurSocket<Session>) {
+        this.clearSessionTimer(socket);
+        socket.session = undefined;
+        socket.data = { ...socket.data, session: undefined };
+        this.stats.authFailure('session_expired');
+        socket.emit('auth:expired', new LemurError('unauthorized', 'Unauthorized access: Session expired.', { channel: 'auth:expired' }).toJSON());
+
+        if (this.settings?.sessionExpiration === 'disconnect') {
+            socket.disconnect(true);
+        }
+    }
+
+    private clearSessionTimer(socket: LemurSocket<Session>) {
+        const timer = this.sessionTimers.get(socket.id);
+        if (timer) clearTimeout(timer);
+        this.sessionTimers.delete(socket.id);
+    }
+
+    private isExpired(session: Session): boolean {
+        return typeof session.exp === 'number' && session.exp * 1000 <= Date.now();
+    }
+
     /**
      * Handle joining a room within a channel.
+     * The socket must pass the token, roles, scopes and `authorizeJoin` checks of the channel, then the join guard.
+     * Members of the room receive a `joined` presence on `${channel}:presence`.
+     * @param {string} channelName - The name of the channel.
      * @param {LemurSocket<Session>} socket - The socket instance.
      * @param {string} room - The name of the room to join.
+     * @param {Channel<Session>} config - The channel configuration.
      */
-    private handleRoomJoin(socket: LemurSocket<Session>, room: string) {
+    private async handleRoomJoin(channelName: string, socket: LemurSocket<Session>, room: string, config: Channel<Session>) {
+        const session = this.currentSession(socket);
+        let failure: LemurError | undefined;
+        try {
+            failure = this.checkAccess(session, config);
+            if (!failure && config.authorizeJoin && !(await config.authorizeJoin(session, room))) {
+                failure = new LemurError('forbidden', `Forbidden: cannot join room ${room}.`);
+            }
+            if (!failure && this.joinGuard && !(await this.joinGuard(socket, room, channelName))) {
+                failure = new LemurError('forbidden', `Forbidden: cannot join room ${room}.`);
+            }
+        } catch (error) {
+            failure = LemurError.from(error);
+        }
+        if (failure) {
+            this.stats.error(channelName, failure.code);
+            return this.error(channelName, socket, new LemurError(failure.code, failure.message, { channel: channelName, details: { ...failure.details, room } }));
+        }
+        if (!socket.connected || this.rooms.peek(room)?.has(socket)) return;
+
         socket.join(room);
         if (!this.rooms.has(room)) {
             this.rooms.set(room, new Set());
         }
         this.rooms.get(room)!.add(socket);
+
+        if (!this.memberships.has(socket.id)) {
+            this.memberships.set(socket.id, new Map());
+        }
+        this.memberships.get(socket.id)!.set(room, channelName);
+
+        try {
+            const count = await this.clusterState.join(room, { id: socket.id, node: this.nodeId, channel: channelName, session: socket.session });
+            await this.clusterState.touch(room, Date.now());
+            this.presence(channelName, room, socket, 'joined', count);
+        } catch (error) {
+            this.logger.error(`Failed to share the join of ${socket.id} to room ${room}.`, error);
+        }
+    }
+
+    /**
+     * Retrieves the rooms a socket of this node joined through a channel.
+     * @param {string} id - The socket id.
+     * @returns {string[]} - The names of the rooms.
+     */
+    private localRoomsOf(id: string): string[] {
+        return Array.from(this.memberships.get(id)?.keys() || []);
     }
 
     /**
      * Handle leaving a room within a channel.
+     * Remaining members of the room receive a `left` presence on `${channel}:presence`.
      * @param {LemurSocket<Session>} socket - The socket instance.
      * @param {string} room - The name of the room to leave.
      */
@@ -379,68 +986,508 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         socket.leave(room);
         if (this.rooms.has(room)) {
             this.rooms.get(room)!.delete(socket);
-            if (this.rooms.get(room)!.size === 0) {
+            if (this.rooms.peek(room)!.size === 0) {
                 this.rooms.delete(room);
             }
         }
+
+        const channel = this.memberships.get(socket.id)?.get(room);
+        this.memberships.get(socket.id)?.delete(room);
+        if (!this.memberships.get(socket.id)?.size) this.memberships.delete(socket.id);
+
+        this.clusterState.leave(room, socket.id)
+            .then(count => channel && this.presence(channel, room, socket, 'left', count))
+            .catch(error => this.logger.error(`Failed to share the leave of ${socket.id} from room ${room}.`, error));
+    }
+
+    /**
+     * Handle a room removed after `roomsEnabled.exp` milliseconds of inactivity on this node.
+     * A room another node kept active, as recorded in the cluster state, stays until `exp` milliseconds after that activity.
+     * Otherwise its members leave the room and receive `${channel}:expired`, then the expiry listeners run.
+     * @param {string} room - The name of the room.
+     * @param {Set<LemurSocket<Session>>} sockets - The members of the room.
+     */
+    private async handleRoomExpired(room: string, sockets: Set<LemurSocket<Session>>) {
+        const { exp } = this.roomExpirationTime();
+        let activeAt: number | undefined;
+        try {
+            activeAt = await this.clusterState.activeAt(room);
+        } catch (error) {
+            this.logger.error(`Failed to read the activity of room ${room}.`, error);
+        }
+
+        // Sockets may have left, and joined again, while the activity was read
+        const remaining = new Set([...sockets, ...(this.rooms.peek(room) || [])]
+            .filter(socket => this.memberships.get(socket.id)?.has(room)));
+        const idle = Date.now() - (activeAt ?? 0);
+        if (idle < exp && remaining.size) {
+            this.rooms.set(room, remaining, exp - idle);
+            return;
+        }
+        this.rooms.delete(room);
+
+        const members: Array<RoomMember<Session>> = [];
+        remaining.forEach(socket => {
+            members.push({ id: socket.id, session: socket.session });
+            const channel = this.memberships.get(socket.id)?.get(room);
+            this.memberships.get(socket.id)?.delete(room);
+            if (!this.memberships.get(socket.id)?.size) this.memberships.delete(socket.id);
+
+            socket.leave(room);
+            if (channel) socket.emit(`${channel}:expired`, { room });
+            this.clusterState.leave(room, socket.id)
+                .catch(error => this.logger.error(`Failed to share the leave of ${socket.id} from room ${room}.`, error));
+        });
+
+        this.roomExpiredListeners.forEach(listener => {
+            try {
+                listener(room, members);
+            } catch (error) {
+                this.logger.error('Room expired listener failed.', error);
+            }
+        });
+    }
+
+    /**
+     * Keep a room active on this node and in the cluster state.
+     * @param {string} room - The name of the room.
+     */
+    private touchRoom(room: string) {
+        this.rooms.get(room);
+        this.clusterState.touch(room, Date.now())
+            .catch(error => this.logger.error(`Failed to share the activity of room ${room}.`, error));
+    }
+
+    /**
+     * Broadcast a presence change to the members of a room.
+     * @param {string} channel - The channel the room was joined through.
+     * @param {string} room - The name of the room.
+     * @param {LemurSocket<Session>} socket - The socket that joined or left.
+     * @param {'joined' | 'left'} type - The kind of change.
+     * @param {number} count - The members of the room on every node.
+     */
+    private presence(channel: string, room: string, socket: LemurSocket<Session>, type: 'joined' | 'left', count: number) {
+        const event: RoomPresence = { room, type, id: socket.id, count };
+        this.io.to(room).emit(`${channel}:presence`, event);
     }
 
     /**
      * Handle incoming event on a channel.
+     * The request goes through the global and channel middleware, then its schema, then the handler.
+     * When the client sent an acknowledgement callback, the response is routed through it.
      * @param {string} channelName - The name of the channel.
      * @param {LemurSocket<Session>} socket - The socket instance.
      * @param {T} data - The data received with the event.
-     * @param {LemurEvent<T, Session>} event - Callback to handle the event.
-     * @param {boolean} tokenRequired - Whether token authentication is required for the event.
+     * @param {Channel<Session>} config - The channel configuration.
+     * @param {LemurAck} [ack] - The acknowledgement callback of the event, if any.
      */
-    private handleEvent<T extends Record<string, any>>(
+    private async handleEvent<T extends Record<string, any>>(
         channelName: string,
         socket: LemurSocket<Session>,
         data: LemurRequest<T, Session>,
-        config: Channel<Session>
-    ) {
-        const token = this.authorization || data?.params?.authorization || '';
+        config: Channel<Session>,
+        ack?: LemurAck
+    ): Promise<void> {
         const room = data?.params?.room;
+        const token = data?.params?.authorization;
+        const requestId = typeof data?.params?.requestId === 'string' ? data.params.requestId : undefined;
+        this.stats.event(channelName);
 
-        if (config.tokenRequired && this.settings?.secret) {
-            const session = this.validToken<Session>(this.settings?.secret, token);
-            if (!Object.keys(session).length) {
-                return this.error(channelName, room || socket, 'Unauthorized access: No valid session found.');
-            }
-            socket.session = session;
-            data.session = session;
+        // The idempotency key is claimed while the handler runs, kept once it answers and released if it fails
+        let idempotencyId: string | undefined;
+        let answered = false;
+        const settle = (answer?: { data: any }) => {
+            answered = true;
+            if (idempotencyId) this.idempotencyKeys!.set(idempotencyId, { done: true, data: answer?.data });
+            idempotencyId = undefined;
+        };
+
+        const onError = (error: unknown) => {
+            // The client already has its answer, an error raised afterwards is only logged
+            if (answered) return void this.logger.error(`Error on ${channelName} after the response was sent.`, error);
+            answered = true;
+            if (idempotencyId) this.idempotencyKeys!.delete(idempotencyId);
+            idempotencyId = undefined;
+            const failure = LemurError.from(error).withContext(channelName, requestId);
+            this.stats.error(channelName, failure.code);
+            return ack
+                ? this.acknowledge(channelName, socket, ack, { error: failure.toJSON() })
+                : this.error(channelName, room || socket, failure);
+        };
+        const onSuccess = (response: any) => {
+            settle({ data: response });
+            return ack
+                ? this.acknowledge(channelName, socket, ack, { data: response }, room)
+                : this.success(channelName, room || socket, response);
+        };
+
+        // A token sent with the event authenticates that request only
+        let session = this.currentSession(socket);
+        if (token && this.settings?.secret) {
+            const requestSession = this.validToken<Session>(this.settings.secret, token);
+            if (Object.keys(requestSession).length) session = requestSession;
+            else this.stats.authFailure('invalid_token');
         }
 
+        data.session = session;
+
         try {
-            const onError = (error: string) => this.error(channelName, room || socket, error)
-
-            if (
-                isLemurCustomWebPushEvent(config.type, config.onEvent) ||
-                isLemurCustomSimpleEvent(config.type, config.onEvent)
-            ) {
-                const to = (channel: string, data: any, room: string) => this.success(channel, room, data);
-                const emit = (channel: string, data: any) => this.success(channel, socket, data);
-
-                if (isLemurCustomSimpleEvent(config.type, config.onEvent)) return config.onEvent(data, { room, to, emit }, onError);
-                return config.onEvent(data, { room, to, emit }, onError, config.pushManager as WebPushLemur<Subscription>);
-
-            } else if (
-                isLemurSimpleEvent(config.type, config.onEvent) ||
-                isLemurSimpleWebPushEvent(config.type, config.onEvent)
-            ) {
-                const onSuccess = (response: any) => this.success(channelName, room || socket, response);
-
-                if (isLemurSimpleEvent(config.type, config.onEvent)) return config.onEvent(data, onSuccess, onError);
-                return config.onEvent(data, onSuccess, onError, config.pushManager as WebPushLemur<Subscription>);
-            } else {
-                throw new Error("Unknown event type!");
+            const denied = this.checkAccess(session, config);
+            if (denied) return onError(denied);
+            if (config.authorize && !(await config.authorize(session, data))) {
+                return onError(new LemurError('forbidden', 'Forbidden: not allowed to use this channel.'));
             }
+            const limited = await this.checkRateLimit(channelName, socket, session, config);
+            if (limited) {
+                onError(limited);
+                return this.recordViolation(socket, limited.details?.retryAfter);
+            }
+
+            const key = this.idempotencyId(channelName, socket, session, data.params.idempotencyKey);
+            const previous = key ? this.idempotencyKeys!.peek(key) : undefined;
+            if (previous) return this.answerRepeat(channelName, socket, previous, requestId, ack);
+            if (key) {
+                this.idempotencyKeys!.set(key, { done: false }, this.idempotencySettings()?.pendingTtl ?? 60 * 1000);
+                idempotencyId = key;
+            }
+        } catch (error) {
+            return onError(error);
+        }
+
+        const ctx: LemurContext<Session> = { channel: channelName, socket, room, requestId, state: {}, startedAt: Date.now() };
+        const stack = [...this.middlewares, ...(config.middleware || [])];
+
+        let handled = false;
+        try {
+            await this.runMiddleware(stack, data, ctx, async () => {
+                handled = true;
+                const issues = this.validateRequest(data, config);
+                if (issues) throw new LemurError('validation_failed', 'Validation failed.', { details: issues });
 
+                if (
+                    isLemurCustomWebPushEvent(config.type, config.onEvent) ||
+                    isLemurCustomSimpleEvent(config.type, config.onEvent)
+                ) {
+                    const to = (channel: string, data: any, room: string) => {
+                        settle();
+                        this.success(channel, room, data);
+                    };
+                    const emit = (channel: string, data: any) => {
+                        settle();
+                        this.success(channel, socket, data);
+                    };
+                    const reply = (data: any) => {
+                        settle({ data });
+                        return ack
+                            ? this.acknowledge(channelName, socket, ack, { data })
+                            : this.success(channelName, socket, data);
+                    };
+
+                    if (isLemurCustomWebPushEvent(config.type, config.onEvent) && config.pushManager) {
+                        return await config.onEvent(data, { room, to, emit, reply }, onError, config.pushManager);
+                    }
+                    return await (config.onEvent as LemurCustomSimpleEvent<T, Session>)(data, { room, to, emit, reply }, onError);
+
+                } else if (
+                    isLemurSimpleEvent(config.type, config.onEvent) ||
+                    isLemurSimpleWebPushEvent(config.type, config.onEvent)
+                ) {
+                    if (isLemurSimpleWebPushEvent(config.type, config.onEvent) && config.pushManager) {
+                        return await config.onEvent(data, onSuccess, onError, config.pushManager);
+                    }
+                    return await (config.onEvent as LemurSimpleEvent<T, Session>)(data, onSuccess, onError);
+                } else {
+                    throw new Error("Unknown event type!");
+                }
+            });
+            if (!handled) onError(new LemurError('forbidden', 'Forbidden: stopped by a middleware.'));
         } catch (error: any) {
-            this.error(channelName, room || socket, error);
+            onError(error);
+        } finally {
+            this.stats.latency(channelName, Date.now() - ctx.startedAt);
+        }
+    }
+
+    /**
+     * Check the session of a request against the token, roles and scopes required by a channel.
+     * Channels declaring roles, scopes or authorization callbacks always require a session.
+     * @param {Session | undefined} session - The session of the request.
+     * @param {Channel<Session>} config - The channel configuration.
+     * @returns {LemurError | undefined} The error to send, or undefined if access is granted.
+     */
+    private checkAccess(session: Session | undefined, config: Channel<Session>): LemurError | undefined {
+        const restricted = !!(config.roles?.length || config.scopes?.length || config.authorize || config.authorizeJoin);
+        if (!session && ((config.tokenRequired && this.settings?.secret) || restricted)) {
+            return new LemurError('unauthorized', 'Unauthorized access: No valid session found.');
+        }
+        if (!session) return undefined;
+
+        const roles = this.claimList(session[this.settings?.claims?.roles || 'roles']);
+        if (config.roles?.length && !config.roles.some(role => roles.includes(role))) {
+            return new LemurError('forbidden', `Forbidden: requires one of the roles ${config.roles.join(', ')}.`);
+        }
+
+        const scopes = this.claimList(session[this.settings?.claims?.scopes || 'scope']);
+        const missing = (config.scopes || []).filter(scope => !scopes.includes(scope));
+        if (missing.length) {
+            return new LemurError('forbidden', `Forbidden: missing the scopes ${missing.join(', ')}.`, { details: { missing } });
+        }
+        return undefined;
+    }
+
+    /**
+     * Read the user of a session, from the `rateLimit.userClaim` claim (default is "id").
+     * @param {Session | undefined} session - The session of the request.
+     * @returns {unknown} The user, or undefined without session or claim.
+     */
+    private userOf(session: Session | undefined): unknown {
+        return session?.[this.settings?.rateLimit?.userClaim || 'id'];
+    }
+
+    /**
+     * Build the id an idempotency key is remembered under, scoped to the channel and to the user of the session,
+     * or to the socket when the event has no user.
+     * @param {string} channelName - The name of the channel.
+     * @param {LemurSocket<Session>} socket - The socket that sent the event.
+     * @param {Session | undefined} session - The session of the request.
+     * @param {unknown} key - The `params.idempotencyKey` of the event.
+     * @returns {string | undefined} The id, or undefined when idempotency is off or the event has no key.
+     */
+    private idempotencyId(channelName: string, socket: LemurSocket<Session>, session: Session | undefined, key: unknown): string | undefined {
+        if (!this.idempotencyKeys || typeof key !== 'string' || !key) return undefined;
+        const user = this.userOf(session);
+        const scope = user !== undefined ? `user:${user}` : `socket:${socket.id}`;
+        return JSON.stringify([scope, channelName, key]);
+    }
+
+    /**
+     * Answer an event repeating an idempotency key without running the handler again, to the caller only.
+     * A handled event gets its original result back; one still in progress gets a retryable `in_progress` error.
+     * @param {string} channelName - The name of the channel.
+     * @param {LemurSocket<Session>} socket - The socket that sent the event.
+     * @param {IdempotentEvent} previous - The event that used the key first.
+     * @param {string} [requestId] - The `params.requestId` of the repeat.
+     * @param {LemurAck} [ack] - The acknowledgement callback of the event, if any.
+     */
+    private answerRepeat(channelName: string, socket: LemurSocket<Session>, previous: IdempotentEvent, requestId?: string, ack?: LemurAck) {
+        if (!previous.done) {
+            const error = new LemurError('in_progress', 'An event with this idempotency key is still running.', { channel: channelName, requestId });
+            return ack ? ack({ error: error.toJSON() }) : this.error(channelName, socket, error);
+        }
+        if (ack) ack({ data: previous.data });
+        else this.success(channelName, socket, previous.data);
+    }
+
+    /**
+     * Consume one call from the socket, user and channel buckets that apply to a request.
+     * @param {string} channelName - The name of the channel.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     * @param {Session | undefined} session - The session of the request.
+     * @param {Channel<Session>} config - The channel configuration.
+     * @returns {Promise<LemurError | undefined>} A `rate_limited` error with the retry-after hint, or undefined if allowed.
+     */
+    private async checkRateLimit(
+        channelName: string,
+        socket: LemurSocket<Session>,
+        session: Session | undefined,
+        config: Channel<Session>
+    ): Promise<LemurError | undefined> {
+        const settings = this.settings?.rateLimit;
+        const user = this.userOf(session);
+        const buckets: Array<[string, RateLimitRule | undefined]> = [
+            [`socket:${socket.id}`, settings?.socket],
+            [`user:${user}`, user !== undefined ? settings?.user : undefined],
+            [`channel:${channelName}:${socket.id}`, config.rateLimit || settings?.channel],
+        ];
+
+        for (const [key, rule] of buckets) {
+            if (!rule) continue;
+            const result = await this.rateLimitStore.consume(key, rule);
+            if (!result.allowed) {
+                const details = result.retryAfter !== undefined ? { retryAfter: result.retryAfter } : {};
+                return new LemurError('rate_limited', 'Too many requests.', { details });
+            }
         }
+        return undefined;
     }
 
+    /**
+     * Count a rejected call and disconnect the socket once it reaches `rateLimit.maxViolations`.
+     * The count starts over when the socket waited out the `retryAfter` of its previous rejection,
+     * so only a socket that keeps calling while limited is disconnected.
+     * @param {LemurSocket<Session>} socket - The socket instance.
+     * @param {number} [retryAfter] - Milliseconds until the socket may call again, absent if never.
+     */
+    private recordViolation(socket: LemurSocket<Session>, retryAfter?: number) {
+        const now = Date.now();
+        const previous = this.violations.get(socket.id);
+        const violations = previous && now < previous.until ? previous.count + 1 : 1;
+        this.violations.set(socket.id, { count: violations, until: retryAfter !== undefined ? now + retryAfter : Infinity });
+
+        if (violations >= (this.settings?.rateLimit?.maxViolations ?? 20)) {
+            this.logger.warn('Socket disconnected for exceeding the rate limit.', { id: socket.id, violations });
+            socket.disconnect(true);
+        }
+    }
+
+    /**
+     * Read a claim holding a list, either an array or a space separated string (OAuth `scope`).
+     * @param {unknown} claim - The claim value.
+     * @returns {string[]}
+     */
+    private claimList(claim: unknown): string[] {
+        if (Array.isArray(claim)) return claim.map(String);
+        if (typeof claim === 'string') return claim.split(' ').filter(Boolean);
+        return [];
+    }
+
+    /**
+     * Run a middleware stack, calling `final` once every middleware called `next()`.
+     * A middleware stops the chain by not calling `next`, or fails it with `next(error)` or by throwing.
+     * The caller answers a stopped chain, since `final` never ran.
+     * @param {Array<LemurMiddleware<any, Session>>} stack - The middleware to run, in order.
+     * @param {LemurRequest<T, Session>} request - The request shared by the middleware and the handler.
+     * @param {LemurContext<Session>} ctx - The context of the request.
+     * @param {() => Promise<void>} final - Runs the handler.
+     */
+    private async runMiddleware<T>(
+        stack: Array<LemurMiddleware<any, Session>>,
+        request: LemurRequest<T, Session>,
+        ctx: LemurContext<Session>,
+        final: () => Promise<void>
+    ): Promise<void> {
+        const dispatch = async (index: number): Promise<void> => {
+            const middleware = stack[index];
+            if (!middleware) return await final();
+
+            // The rest of the chain is awaited here too, so a middleware that does not await `next` cannot lose its error
+            let downstream: Promise<void> | undefined;
+            let misuse: Error | undefined;
+            await middleware(request, ctx, (error?: unknown) => {
+                if (downstream) {
+                    misuse = new Error('next() called multiple times');
+                    return Promise.resolve();
+                }
+                downstream = error !== undefined ? Promise.reject(error) : dispatch(index + 1);
+                downstream.catch(() => undefined);
+                return downstream;
+            });
+            if (downstream) await downstream;
+            if (misuse) throw misuse;
+        };
+        await dispatch(0);
+    }
+
+    /**
+     * Check whether an event is handled by a channel or by the server itself.
+     * @param {string} event - The name of the event.
+     * @returns {boolean} True if a listener handles the event.
+     */
+    private isKnownEvent(event: string): boolean {
+        if (event === 'auth:refresh' || this.channels.has(event)) return true;
+
+        const [, name, action] = event.match(/^(.*):(join|leave)$/) || [];
+        return !!name && !!action && !!this.channels.get(name)?.roomSupport;
+    }
+
+    /**
+     * Read the `{ data, params }` payload of a channel event and hand it to `handleEvent`.
+     * A payload that is missing or not an object is rejected with a `validation_failed` error.
+     * @param {string} channelName - The name of the channel.
+     * @param {LemurSocket<Session>} socket - The socket that sent the event.
+     * @param {unknown} payload - The first argument of the event, the acknowledgement when the event has no payload.
+     * @param {unknown} ack - The second argument of the event, the acknowledgement if any.
+     * @param {Channel<Session>} config - The channel configuration.
+     */
+    private handlePayload(channelName: string, socket: LemurSocket<Session>, payload: unknown, ack: unknown, config: Channel<Session>) {
+        const callback = [payload, ack].find(arg => typeof arg === 'function') as LemurAck | undefined;
+        const { data: body, params } = (isRecord(payload) ? payload : {}) as Partial<LemurData<unknown>>;
+
+        if (!isRecord(payload) || (params && !isRecord(params))) {
+            const path = isRecord(payload) ? 'params' : '';
+            const error = new LemurError('validation_failed', 'Validation failed.', {
+                channel: channelName,
+                details: [{ path, message: 'must be an object' }],
+            });
+            this.stats.error(channelName, error.code);
+            if (callback) return this.acknowledge(channelName, socket, callback, { error: error.toJSON() });
+            return this.error(channelName, socket, error);
+        }
+
+        this.handleEvent<Record<string, unknown>>(channelName, socket, {
+            body: body as Record<string, unknown>,
+            params: params || {} as Params,
+            session: undefined
+        }, config, callback);
+    }
+
+    /**
+     * Reject an event that no channel handles with an `unknown_channel` error.
+     * @param {LemurSocket<Session>} socket - The socket that sent the event.
+     * @param {string} event - The name of the event.
+     * @param {Array<any>} args - The arguments of the event, the last one may be an acknowledgement.
+     */
+    private handleUnknownEvent(socket: LemurSocket<Session>, event: string, args: Array<any>) {
+        const ack = args[args.length - 1];
+        const requestId = args[0]?.params?.requestId;
+        const error = new LemurError('unknown_channel', `Unknown channel: ${event}`, { channel: event, requestId });
+
+        if (typeof ack === 'function') return this.acknowledge(event, socket, ack, { error: error.toJSON() });
+        this.error(event, socket, error);
+    }
+
+    /**
+     * Validate the body and params of a request against the schemas of its channel.
+     * Parsed values (e.g. defaults applied by a Zod schema) replace the received ones.
+     * @param {LemurRequest<T, Session>} data - The request to validate.
+     * @param {Channel<Session>} config - The channel configuration.
+     * @returns {LemurValidationIssue[] | undefined} The issues found, or undefined if the request is valid.
+     */
+    private validateRequest<T>(data: LemurRequest<T, Session>, config: Channel<Session>): LemurValidationIssue[] | undefined {
+        const issues: LemurValidationIssue[] = [];
+
+        if (config.schema) {
+            const result = validateSchema<T>(config.schema, data.body);
+            if (result.success) data.body = result.data;
+            else issues.push(...result.error.map((issue: LemurValidationIssue) => ({ ...issue, path: this.issuePath('body', issue.path) })));
+        }
+        if (config.paramsSchema) {
+            const result = validateSchema<Params>(config.paramsSchema, data.params);
+            if (result.success) data.params = result.data;
+            else issues.push(...result.error.map((issue: LemurValidationIssue) => ({ ...issue, path: this.issuePath('params', issue.path) })));
+        }
+
+        return issues.length ? issues : undefined;
+    }
+
+    private issuePath(root: string, path: string): string {
+        return path ? `${root}.${path}` : root;
+    }
+
+    /**
+     * Answer an event through its acknowledgement callback.
+     * Other members of the room still receive a successful response on `${channel}:success`.
+     * @param {string} channel - The name of the channel.
+     * @param {LemurSocket<Session>} socket - The socket that sent the event.
+     * @param {LemurAck} ack - The acknowledgement callback.
+     * @param {LemurAckResponse} response - The response for the caller.
+     * @param {string} [room] - The room the event was sent to, if any.
+     */
+    private acknowledge(
+        channel: string,
+        socket: LemurSocket<Session>,
+        ack: LemurAck,
+        response: LemurAckResponse,
+        room?: string
+    ) {
+        ack(response);
+        if ('error' in response) {
+            this.logger.error(`${channel}:error`, response.error);
+        } else if (room) {
+            this.touchRoom(room); // Broadcasting keeps the room active
+            this.io.to(room).except(socket.id).emit(`${channel}:success`, response.data);
+        }
+    }
 
     /**
      * Emit success event to a socket.
@@ -454,6 +1501,7 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
         data: any,
     ) {
         if (typeof response == 'string') {
+            this.touchRoom(response); // Broadcasting keeps the room active
             this.io.to(response).emit(`${channel}:success`, data);
             return;
         }
@@ -464,19 +1512,20 @@ export class SocketServer<Session extends Record<string, any>> extends TokenMana
      * Emit error event to a socket.
      * @param {string} channel - The name of the channel.
      * @param {LemurSocket<Session> | string} response - The socket instance.
-     * @param {string} error - The error message.
+     * @param {LemurError} error - The error, sent as a `LemurErrorEnvelope`.
      */
     private error(
         channel: string,
         response: LemurSocket<Session> | string,
-        error: string,
+        error: LemurError,
     ) {
+        const payload = error.toJSON();
         if (typeof response == 'string') {
-            this.io.to(response).emit(`${channel}:error`, { error });
+            this.io.to(response).emit(`${channel}:error`, payload);
         } else {
-            response.emit(`${channel}:error`, { error });
+            response.emit(`${channel}:error`, payload);
         }
-        this.logger.error(`${channel}:error`, error);
+        this.logger.error(`${channel}:error`, payload);
     }
 
     /**